@@ -3,11 +3,15 @@
 import { ScrollingNotation } from '@/components/ScrollingNotation';
 import { SimpleNoteFinder } from '@/components/SimpleNoteFinder';
 import { SheetMusicUpload } from '@/components/SheetMusicUpload';
-import { useState } from 'react';
+import { SwaraInput } from '@/components/SwaraInput';
+import { ShrutiSelector } from '@/components/ShrutiSelector';
+import { InstrumentSelector } from '@/components/InstrumentSelector';
+import { TuningSelector } from '@/components/TuningSelector';
+import { RagaSelector } from '@/components/RagaSelector';
+import { TalaSelector } from '@/components/TalaSelector';
+import { FingeringSettings } from '@/components/FingeringSettings';
 
 export default function Home() {
-  const [uploadedNotes, setUploadedNotes] = useState('');
-
   return (
     <main className="min-h-screen bg-slate-900 p-6">
       <div className="max-w-7xl mx-auto">
@@ -18,12 +22,19 @@ export default function Home() {
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           {/* Main scrolling view - takes most space */}
           <div className="lg:col-span-3 space-y-6">
-            <SheetMusicUpload onScoreLoaded={setUploadedNotes} />
-            <ScrollingNotation uploadedNotes={uploadedNotes} />
+            <SheetMusicUpload />
+            <SwaraInput />
+            <ScrollingNotation />
           </div>
           
-          {/* Simple finder sidebar */}
-          <div className="lg:col-span-1">
+          {/* Settings and simple finder sidebar */}
+          <div className="lg:col-span-1 space-y-6">
+            <ShrutiSelector />
+            <RagaSelector />
+            <TalaSelector />
+            <InstrumentSelector />
+            <TuningSelector />
+            <FingeringSettings />
             <SimpleNoteFinder />
           </div>
         </div>
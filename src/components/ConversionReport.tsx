@@ -0,0 +1,56 @@
+'use client';
+
+import { AlertTriangle } from 'lucide-react';
+import { useAppStore } from '@/lib/store';
+import { ConversionIssue, RangeMode } from '@/lib/carnatic-converter-correct';
+
+const RANGE_MODES: Array<{ value: RangeMode; label: string }> = [
+  { value: 'marker', label: 'Mark as unplayable' },
+  { value: 'fold', label: 'Fold notes by octave' },
+  { value: 'transpose', label: 'Transpose whole score' },
+];
+
+interface ConversionReportProps {
+  issues: ConversionIssue[];
+}
+
+export const ConversionReport = ({ issues }: ConversionReportProps) => {
+  const { rangeMode, setRangeMode } = useAppStore();
+
+  return (
+    <div className="bg-white/5 rounded-xl p-4 border border-white/10">
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-2">
+        <h4 className="font-bold flex items-center gap-2">
+          <AlertTriangle className={`w-4 h-4 ${issues.length > 0 ? 'text-yellow-400' : 'text-slate-500'}`} />
+          Range check
+        </h4>
+        <select
+          value={rangeMode}
+          onChange={(e) => setRangeMode(e.target.value as RangeMode)}
+          className="bg-black/30 border border-white/10 rounded-lg px-3 py-1 text-sm"
+        >
+          {RANGE_MODES.map(({ value, label }) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+
+      {issues.length === 0 ? (
+        <p className="text-sm text-slate-400">All notes are playable in this tuning</p>
+      ) : (
+        <ul className="text-sm space-y-1 max-h-40 overflow-y-auto">
+          {issues.map((issue) => (
+            <li key={issue.index} className="flex flex-wrap gap-x-2">
+              <span className="font-mono text-slate-400">#{issue.index + 1}</span>
+              <span className="font-bold">{issue.note}</span>
+              <span className="text-slate-300">{issue.reason}</span>
+              {issue.resolution && (
+                <span className="text-green-400">→ {issue.resolution}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
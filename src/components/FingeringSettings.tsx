@@ -0,0 +1,56 @@
+'use client';
+
+import { RotateCcw } from 'lucide-react';
+import { useAppStore } from '@/lib/store';
+import { DEFAULT_FINGERING_WEIGHTS, FingeringWeights } from '@/lib/fingering-optimizer';
+
+const WEIGHT_LABELS: Array<{ key: keyof FingeringWeights; label: string }> = [
+  { key: 'stringCrossing', label: 'String crossing' },
+  { key: 'shift', label: 'Shift' },
+  { key: 'shiftDistance', label: 'Shift distance' },
+  { key: 'highPosition', label: 'High position' },
+  { key: 'extension', label: '4th finger extension' },
+  { key: 'openString', label: 'Open string' },
+];
+
+export const FingeringSettings = () => {
+  const { fingeringWeights, setFingeringWeights } = useAppStore();
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-bold">Fingering</h3>
+        <button
+          onClick={() => setFingeringWeights(DEFAULT_FINGERING_WEIGHTS)}
+          className="p-2 bg-slate-700 hover:bg-slate-600 rounded-lg"
+          title="Reset weights"
+        >
+          <RotateCcw size={16} />
+        </button>
+      </div>
+      <p className="text-xs text-slate-400 mb-4">
+        Higher cost = the optimizer avoids it more across the whole phrase
+      </p>
+
+      <div className="space-y-3">
+        {WEIGHT_LABELS.map(({ key, label }) => (
+          <div key={key}>
+            <div className="flex justify-between text-sm text-slate-300">
+              <span>{label}</span>
+              <span className="font-mono">{fingeringWeights[key]}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="10"
+              step="0.5"
+              value={fingeringWeights[key]}
+              onChange={(e) => setFingeringWeights({ [key]: parseFloat(e.target.value) })}
+              className="w-full"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+'use client';
+
+import { useAppStore } from '@/lib/store';
+
+/**
+ * Switch between playing repeats and jumps as performed and the measures as written
+ * Shown only when the loaded score has repeats
+ */
+export const FollowRepeatsToggle = () => {
+  const { scoreOrders, followRepeats, setFollowRepeats } = useAppStore();
+  if (!scoreOrders) return null;
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-slate-300">
+      <input
+        type="checkbox"
+        checked={followRepeats}
+        onChange={(e) => setFollowRepeats(e.target.checked)}
+        className="rounded"
+      />
+      Follow repeats
+      <span className="text-xs text-slate-500">
+        ({followRepeats ? `${scoreOrders.played.length} notes played` : `${scoreOrders.written.length} notes as written`})
+      </span>
+    </label>
+  );
+};
@@ -3,23 +3,22 @@
 import { useState } from 'react';
 import { Upload, FileMusic, Mic } from 'lucide-react';
 import { useAppStore } from '@/lib/store';
-import { CarnaticConverter } from '@/lib/carnatic-converter';
 import { MusicXMLParser } from '@/lib/music-parser';
+import { MidiParser } from '@/lib/midi-parser';
 
 type InputMethod = 'manual' | 'upload';
 
 export const InputPanel = () => {
   const [inputMethod, setInputMethod] = useState<InputMethod>('manual');
   const [noteInput, setNoteInput] = useState('');
-  const { setScore, setMetadata } = useAppStore();
+  const { loadScore, setMetadata, setRagaId, setTalaId } = useAppStore();
 
   const handleManualInput = () => {
     try {
-      const notes = MusicXMLParser.parseSimpleSequence(noteInput);
-      const positions = CarnaticConverter.convertScore(notes);
-      setScore(notes, positions);
+      const { notes } = MusicXMLParser.parseSimpleSequence(noteInput);
+      loadScore(notes);
     } catch (error) {
-      alert('Error parsing notes. Use format: C4 D4 E4 or C4:1 D4:0.5 E4:0.5');
+      alert(error instanceof Error ? error.message : 'Error parsing notes. Use format: C4 D4 E4 or C4:1 D4:0.5 E4:0.5');
     }
   };
 
@@ -27,39 +26,43 @@ export const InputPanel = () => {
     const file = event.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const content = e.target?.result as string;
-      
-      try {
-        let parsedScore;
-        
-        if (file.name.endsWith('.xml') || file.name.endsWith('.musicxml')) {
-          parsedScore = await MusicXMLParser.parseMusicXML(content);
-        } else if (file.name.endsWith('.abc')) {
-          parsedScore = MusicXMLParser.parseABCNotation(content);
-        } else {
-          alert('Please upload .xml, .musicxml, or .abc files');
-          return;
-        }
+    try {
+      let parsedScore;
 
-        const positions = CarnaticConverter.convertScore(parsedScore.notes);
-        setScore(parsedScore.notes, positions);
-        
-        if (parsedScore.title || parsedScore.composer || parsedScore.tempo) {
-          setMetadata({
-            title: parsedScore.title,
-            composer: parsedScore.composer,
-            tempo: parsedScore.tempo,
-          });
-        }
-      } catch (error) {
-        console.error('Error parsing file:', error);
-        alert('Error parsing file. Please check the file format.');
+      // Compressed MusicXML and MuseScore files are unzipped and converted on the way in
+      if (MusicXMLParser.isMusicXMLFile(file)) {
+        parsedScore = await MusicXMLParser.parseMusicXML(await MusicXMLParser.readMusicXMLFile(file));
+      } else if (file.name.endsWith('.abc')) {
+        parsedScore = MusicXMLParser.parseABCNotation(await file.text());
+      } else if (/\.midi?$/i.test(file.name)) {
+        parsedScore = MidiParser.parse(await file.arrayBuffer());
+      } else {
+        alert('Please upload .xml, .musicxml, .mxl, .mscz, .abc or .mid files');
+        return;
+      }
+
+      // A raga carried by the score overrides the current selection
+      if (parsedScore.raga) {
+        setRagaId(parsedScore.raga);
+      }
+      if (parsedScore.tala) {
+        setTalaId(parsedScore.tala);
       }
-    };
-    
-    reader.readAsText(file);
+
+      loadScore(parsedScore.notes, parsedScore.writtenNotes, parsedScore.accompaniment);
+      
+      setMetadata({
+        title: parsedScore.title,
+        composer: parsedScore.composer,
+        tempo: parsedScore.tempo,
+        timeSignature: parsedScore.timeSignature,
+        raga: useAppStore.getState().ragaId,
+        tala: useAppStore.getState().talaId,
+      });
+    } catch (error) {
+      console.error('Error parsing file:', error);
+      alert('Error parsing file. Please check the file format.');
+    }
   };
 
   return (
@@ -128,7 +131,7 @@ export const InputPanel = () => {
           </p>
           <input
             type="file"
-            accept=".xml,.musicxml,.abc,.jpg,.jpeg,.png"
+            accept=".xml,.musicxml,.mxl,.mscz,.mscx,.abc,.mid,.midi,.jpg,.jpeg,.png"
             onChange={handleFileUpload}
             className="hidden"
             id="file-upload"
@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useAppStore, selectInstrument } from '@/lib/store';
+import { getViolinSynth } from '@/lib/audio-synth';
+import { INSTRUMENTS } from '@/lib/instrument';
+
+export const InstrumentSelector = () => {
+  const { instrumentId, setInstrumentId } = useAppStore();
+  const instrument = useAppStore(selectInstrument);
+
+  // Keep the synth's voice in sync with the store
+  useEffect(() => {
+    getViolinSynth().setTimbre(instrument.timbre);
+  }, [instrument]);
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4">
+      <h3 className="text-lg font-bold mb-2">Instrument</h3>
+      <p className="text-xs text-slate-400 mb-4">
+        Strings, fingerboard and sound used for conversion and playback
+      </p>
+
+      <select
+        value={instrumentId}
+        onChange={(e) => setInstrumentId(e.target.value)}
+        className="w-full bg-slate-900 text-white p-3 rounded-lg border border-slate-700 mb-3"
+      >
+        {INSTRUMENTS.map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.name}
+          </option>
+        ))}
+      </select>
+
+      <div className="flex gap-2">
+        {instrument.strings.map((string) => (
+          <div
+            key={string}
+            className="flex-1 rounded-lg py-1 text-center font-bold"
+            style={{ backgroundColor: `${instrument.colors[string]}30`, color: instrument.colors[string] }}
+          >
+            {string}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
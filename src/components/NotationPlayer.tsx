@@ -1,18 +1,18 @@
 'use client';
 
-import { Play, Pause, RotateCcw, SkipBack, SkipForward } from 'lucide-react';
-import { useAppStore } from '@/lib/store';
+import { Play, Pause, RotateCcw, SkipBack, SkipForward, Download, Copy, Check, Music, FileMusic } from 'lucide-react';
+import { shallow } from 'zustand/shallow';
+import { useAppStore, selectTuning, selectSwaraNames, selectTala, selectInstrument } from '@/lib/store';
 import { usePlayback } from '@/hooks/usePlayback';
-import { useEffect, useRef } from 'react';
-
-const STRING_COLORS: Record<string, string> = {
-  G: '#ef4444',
-  D: '#06b6d4',
-  A: '#3b82f6',
-  E: '#f97316',
-};
-
-const STRING_ORDER = ['G', 'D', 'A', 'E'] as const;
+import { useEffect, useRef, useState } from 'react';
+import { swaraName } from '@/lib/shruti';
+import { midiToNoteName } from '@/lib/instrument';
+import { SwaraExporter } from '@/lib/swara-export';
+import { MidiExporter } from '@/lib/midi-export';
+import { MusicXMLExporter } from '@/lib/musicxml-export';
+import { downloadFile } from '@/lib/download';
+import { angaStarts, talaBeats } from '@/lib/talas';
+import { FollowRepeatsToggle } from './FollowRepeatsToggle';
 
 export const NotationPlayer = () => {
   const {
@@ -25,12 +25,65 @@ export const NotationPlayer = () => {
     setLoop,
     previousNote,
     nextNote,
+    saMidi,
+    ragaId,
+    scoreMetadata,
   } = useAppStore();
+  const tuning = useAppStore(selectTuning, shallow);
+  const swaraNames = useAppStore(selectSwaraNames);
+  const tala = useAppStore(selectTala);
+  const instrument = useAppStore(selectInstrument);
 
   const { togglePlayback, stopPlayback, isPlaying } = usePlayback();
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
   const scrollOffset = useRef<number>(0);
+  const [copied, setCopied] = useState(false);
+
+  const exportText = () => SwaraExporter.toText(
+    { ...scoreMetadata, notes: westernNotes },
+    carnaticPositions,
+    { saMidi, ragaId, tala }
+  );
+
+  const downloadSwaras = () => {
+    downloadFile(exportText(), 'text/plain;charset=utf-8', SwaraExporter.fileName({ ...scoreMetadata, notes: westernNotes }));
+  };
+
+  const downloadMidi = () => {
+    const score = { ...scoreMetadata, notes: westernNotes };
+    const midi = MidiExporter.toMidi(score, carnaticPositions, {
+      saMidi,
+      ragaId,
+      swaras: true,
+      fingering: true,
+      instrumentId: instrument.id,
+    });
+    downloadFile(midi, 'audio/midi', MidiExporter.fileName(score));
+  };
+
+  const downloadMusicXML = () => {
+    const score = { ...scoreMetadata, notes: westernNotes };
+    const xml = MusicXMLExporter.toMusicXML(score, carnaticPositions, {
+      saMidi,
+      ragaId,
+      swaras: true,
+      fingering: true,
+      instrumentId: instrument.id,
+    });
+    downloadFile(xml, 'application/vnd.recordare.musicxml+xml', MusicXMLExporter.fileName(score));
+  };
+
+  const copySwaras = async () => {
+    try {
+      await navigator.clipboard.writeText(exportText());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying swaras:', error);
+      alert('Could not copy to the clipboard. Use Download instead.');
+    }
+  };
 
   useEffect(() => {
     if (!canvasRef.current || westernNotes.length === 0) return;
@@ -54,9 +107,9 @@ export const NotationPlayer = () => {
       ctx.fillRect(0, 0, width, height);
 
       // Draw string lanes
-      const laneWidth = width / 4;
+      const laneWidth = width / instrument.strings.length;
       
-      STRING_ORDER.forEach((string, index) => {
+      instrument.strings.forEach((string, index) => {
         const x = index * laneWidth;
         
         // Lane background
@@ -72,13 +125,22 @@ export const NotationPlayer = () => {
         ctx.stroke();
 
         // String label at top
-        ctx.fillStyle = STRING_COLORS[string];
+        ctx.fillStyle = instrument.colors[string];
         ctx.font = 'bold 24px sans-serif';
         ctx.textAlign = 'center';
         ctx.fillText(string, x + laneWidth / 2, 40);
+
+        // Open-string pitch and swara for the current tuning
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
+        ctx.font = '12px sans-serif';
+        ctx.fillText(
+          `${midiToNoteName(tuning[string])} · ${swaraName(tuning[string], saMidi, swaraNames)}`,
+          x + laneWidth / 2,
+          60
+        );
         
         // Draw centerline at bottom (target line)
-        ctx.strokeStyle = STRING_COLORS[string];
+        ctx.strokeStyle = instrument.colors[string];
         ctx.lineWidth = 3;
         ctx.beginPath();
         ctx.moveTo(x + 10, height - 80);
@@ -94,21 +156,62 @@ export const NotationPlayer = () => {
         scrollOffset.current += (tempo / 60) * 2; // Scroll speed based on tempo
       }
 
+      // Tala dividers at the start of each anga, heavier at each avartanam
+      const totalBeats = westernNotes.reduce((sum, note) => sum + note.duration, 0);
+      const cycle = talaBeats(tala);
+      const starts = angaStarts(tala);
+      for (let cycleStart = 0; cycleStart < totalBeats; cycleStart += cycle) {
+        starts.forEach((start, angaIndex) => {
+          const beat = cycleStart + start;
+          if (beat === 0 || beat >= totalBeats) return;
+          const lineY = targetY - beat * pixelsPerBeat + scrollOffset.current;
+          if (lineY < 0 || lineY > height) return;
+
+          const isAvartanam = angaIndex === 0;
+          ctx.strokeStyle = isAvartanam ? 'rgba(255, 255, 255, 0.45)' : 'rgba(255, 255, 255, 0.15)';
+          ctx.lineWidth = isAvartanam ? 2 : 1;
+          ctx.beginPath();
+          ctx.moveTo(0, lineY);
+          ctx.lineTo(width, lineY);
+          ctx.stroke();
+        });
+      }
+
       let accumulatedTime = 0;
       carnaticPositions.forEach((position, index) => {
-        if (!position) return;
-
-        const stringIndex = STRING_ORDER.indexOf(position.string);
-        if (stringIndex === -1) return;
-
-        const x = stringIndex * laneWidth + laneWidth / 2;
-        
         // Calculate Y position based on time
         const noteTime = accumulatedTime;
         const y = targetY - (noteTime * pixelsPerBeat) + scrollOffset.current;
         
         accumulatedTime += westernNotes[index].duration;
 
+        // Rests only take up time
+        if (westernNotes[index].rest) return;
+
+        // Unplayable notes keep their place in time as a marker between the lanes
+        if (!position) {
+          if (y > -100 && y < height + 100) {
+            const isActive = index === currentIndex;
+            ctx.fillStyle = isActive ? '#f87171' : 'rgba(148, 163, 184, 0.6)';
+            ctx.font = `bold ${isActive ? 28 : 22}px sans-serif`;
+            ctx.textAlign = 'center';
+            ctx.textBaseline = 'middle';
+            ctx.fillText('✕', width / 2, y);
+            ctx.font = '10px sans-serif';
+            ctx.fillText(
+              `${westernNotes[index].pitch}${westernNotes[index].octave} out of range`,
+              width / 2,
+              y + 24
+            );
+          }
+          return;
+        }
+
+        const stringIndex = instrument.strings.indexOf(position.string);
+        if (stringIndex === -1) return;
+
+        const x = stringIndex * laneWidth + laneWidth / 2;
+
         // Only draw if note is visible
         if (y > -100 && y < height + 100) {
           const isActive = index === currentIndex;
@@ -121,18 +224,18 @@ export const NotationPlayer = () => {
           if (isPast) {
             ctx.fillStyle = 'rgba(100, 100, 100, 0.3)';
           } else if (isActive) {
-            ctx.fillStyle = STRING_COLORS[position.string];
-            ctx.shadowColor = STRING_COLORS[position.string];
+            ctx.fillStyle = instrument.colors[position.string];
+            ctx.shadowColor = instrument.colors[position.string];
             ctx.shadowBlur = 20;
           } else {
-            ctx.fillStyle = `${STRING_COLORS[position.string]}cc`;
+            ctx.fillStyle = `${instrument.colors[position.string]}cc`;
           }
           
           ctx.fill();
           ctx.shadowBlur = 0;
 
           // Border
-          ctx.strokeStyle = isActive ? '#fff' : STRING_COLORS[position.string];
+          ctx.strokeStyle = isActive ? '#fff' : instrument.colors[position.string];
           ctx.lineWidth = isActive ? 4 : 2;
           ctx.stroke();
 
@@ -143,11 +246,22 @@ export const NotationPlayer = () => {
           ctx.textBaseline = 'middle';
           ctx.fillText(position.position, x, y);
 
-          // Western note below
+          // Hand position above, highlighted where a shift happens
+          if (position.shift || (position.handPosition ?? 0) > 1) {
+            ctx.fillStyle = position.shift ? '#facc15' : 'rgba(255, 255, 255, 0.6)';
+            ctx.font = 'bold 10px sans-serif';
+            ctx.fillText(
+              `${position.shift ? (position.shift.to > position.shift.from ? '▲ ' : '▼ ') : ''}Pos ${position.handPosition}`,
+              x,
+              y - (isActive ? 48 : 38)
+            );
+          }
+
+          // Western note below, with the octave it was moved by
           ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
           ctx.font = '10px sans-serif';
           ctx.fillText(
-            `${westernNotes[index].pitch}${westernNotes[index].octave}`,
+            `${westernNotes[index].pitch}${westernNotes[index].octave}${position.octaveShift ? ` (8va ${position.octaveShift > 0 ? '↑' : '↓'})` : ''}`,
             x,
             y + (isActive ? 50 : 40)
           );
@@ -155,7 +269,7 @@ export const NotationPlayer = () => {
           // Tail line for duration
           if (westernNotes[index].duration > 1) {
             const tailLength = (westernNotes[index].duration - 1) * pixelsPerBeat;
-            ctx.strokeStyle = `${STRING_COLORS[position.string]}66`;
+            ctx.strokeStyle = `${instrument.colors[position.string]}66`;
             ctx.lineWidth = 3;
             ctx.beginPath();
             ctx.moveTo(x, y + 25);
@@ -175,7 +289,7 @@ export const NotationPlayer = () => {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [westernNotes, carnaticPositions, currentIndex, isPlaying, tempo]);
+  }, [westernNotes, carnaticPositions, currentIndex, isPlaying, tempo, tuning, saMidi, swaraNames, tala, instrument]);
 
   if (westernNotes.length === 0) {
     return null;
@@ -188,6 +302,36 @@ export const NotationPlayer = () => {
         <div className="flex justify-between items-center mb-6 flex-wrap gap-4">
           <h3 className="text-xl font-bold">Scrolling Notation View</h3>
           <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={downloadSwaras}
+                className="p-2 bg-white/10 hover:bg-white/15 rounded-lg transition-all"
+                title="Download swara notation"
+              >
+                <Download className="w-4 h-4" />
+              </button>
+              <button
+                onClick={copySwaras}
+                className="p-2 bg-white/10 hover:bg-white/15 rounded-lg transition-all"
+                title="Copy swara notation"
+              >
+                {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+              </button>
+              <button
+                onClick={downloadMidi}
+                className="p-2 bg-white/10 hover:bg-white/15 rounded-lg transition-all"
+                title="Download MIDI file with swaras and fingering"
+              >
+                <Music className="w-4 h-4" />
+              </button>
+              <button
+                onClick={downloadMusicXML}
+                className="p-2 bg-white/10 hover:bg-white/15 rounded-lg transition-all"
+                title="Download MusicXML with swaras and fingering"
+              >
+                <FileMusic className="w-4 h-4" />
+              </button>
+            </div>
             <label className="flex items-center gap-2 text-sm text-slate-300">
               <input
                 type="checkbox"
@@ -197,6 +341,7 @@ export const NotationPlayer = () => {
               />
               Loop
             </label>
+            <FollowRepeatsToggle />
             <div className="flex items-center gap-3">
               <label className="text-sm text-slate-300">
                 Tempo: {tempo} BPM
@@ -280,14 +425,14 @@ export const NotationPlayer = () => {
       <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10">
         <h4 className="text-lg font-bold mb-4">How to Read</h4>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-          {STRING_ORDER.map((string) => (
+          {instrument.strings.map((string) => (
             <div key={string} className="flex items-center gap-3">
               <div
                 className="w-12 h-12 rounded-full flex items-center justify-center font-bold"
                 style={{
-                  backgroundColor: `${STRING_COLORS[string]}20`,
-                  border: `3px solid ${STRING_COLORS[string]}`,
-                  color: STRING_COLORS[string],
+                  backgroundColor: `${instrument.colors[string]}20`,
+                  border: `3px solid ${instrument.colors[string]}`,
+                  color: instrument.colors[string],
                 }}
               >
                 {string}
@@ -295,10 +440,7 @@ export const NotationPlayer = () => {
               <div>
                 <div className="font-semibold">{string} String</div>
                 <div className="text-xs text-slate-400">
-                  {string === 'G' && 'Higher Sa'}
-                  {string === 'D' && 'Higher Pa'}
-                  {string === 'A' && 'Lower Sa'}
-                  {string === 'E' && 'Lower Pa'}
+                  {midiToNoteName(tuning[string])} · {swaraName(tuning[string], saMidi, swaraNames)}
                 </div>
               </div>
             </div>
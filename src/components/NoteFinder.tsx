@@ -2,54 +2,37 @@
 
 import { useState } from 'react';
 import { Search } from 'lucide-react';
+import { shallow } from 'zustand/shallow';
+import { useAppStore, selectTuning, selectSwaraNames, selectInstrument } from '@/lib/store';
+import { swaraName } from '@/lib/shruti';
+import { PITCH_CLASSES, StringName, findLocations, formatHandPosition, normalizePitch, playableMidis } from '@/lib/instrument';
 
 interface Position {
-  string: 'G' | 'D' | 'A' | 'E';
+  string: StringName;
   carnaticNotation: string;
   fingerPosition: number;
+  handPosition: number;
   westernNote: string;
   octave: number;
 }
 
-const STRING_COLORS: Record<string, string> = {
-  G: '#ef4444',
-  D: '#06b6d4',
-  A: '#3b82f6',
-  E: '#f97316',
-};
-
-const NOTE_TO_MIDI: Record<string, number> = {
-  'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3, 'E': 4, 'E#': 5, 'Fb': 4,
-  'F': 5, 'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8, 'Ab': 8,
-  'A': 9, 'A#': 10, 'Bb': 10, 'B': 11, 'B#': 0, 'Cb': 11,
-};
-
-const STRING_TUNINGS = { G: 55, D: 50, A: 45, E: 40 }; // MIDI numbers
-
-const STRING_POSITIONS: Record<string, string[]> = {
-  G: ['SA', 'RE1', 'RE2', 'GA2', 'GA3', 'MA1', 'MA2'],
-  D: ['PA', 'DA1', 'DA2', 'NI2', 'NI3', 'SA.'],
-  A: ['Sa', 'Re1', 'Re2', 'Ga2', 'Ga3', 'Ma1', 'Ma2'],
-  E: ['Pa', 'Da1', 'Da2', 'Ni2', 'Ni3', 'Sa.', 'Re1.', 'Re2.', 'Ga2.', 'Ga3.', 'Ma1.', 'Ma2.', 'Pa.'],
-};
-
 export const NoteFinder = () => {
   const [searchNote, setSearchNote] = useState('');
   const [positions, setPositions] = useState<Position[]>([]);
   const [error, setError] = useState('');
+  const saMidi = useAppStore((state) => state.saMidi);
+  const tuning = useAppStore(selectTuning, shallow);
+  const swaraNames = useAppStore(selectSwaraNames);
+  const instrument = useAppStore(selectInstrument);
 
   const findAllPositions = () => {
-    const noteUpper = searchNote.trim().toUpperCase();
-    
-    if (!noteUpper) {
+    if (!searchNote.trim()) {
       setError('Please enter a note name');
       return;
     }
 
-    // Parse the note
-    const baseNoteMidi = NOTE_TO_MIDI[noteUpper];
-    
-    if (baseNoteMidi === undefined) {
+    const note = normalizePitch(searchNote);
+    if (!note) {
       setError('Invalid note. Examples: E, E#, Eb, F#, Db, etc.');
       setPositions([]);
       return;
@@ -58,32 +41,22 @@ export const NoteFinder = () => {
     setError('');
     const foundPositions: Position[] = [];
 
-    // Search across multiple octaves (octaves 2-6 cover most violin range)
-    for (let octave = 2; octave <= 6; octave++) {
-      const midiNote = (octave + 1) * 12 + baseNoteMidi;
-      
-      // Check each string
-      const strings: Array<keyof typeof STRING_TUNINGS> = ['G', 'D', 'A', 'E'];
-      
-      for (const string of strings) {
-        const openStringMidi = STRING_TUNINGS[string];
-        const semitonesFromOpen = midiNote - openStringMidi;
-        
-        // Only include positions within playable range
-        if (semitonesFromOpen >= 0 && semitonesFromOpen < STRING_POSITIONS[string].length) {
-          foundPositions.push({
-            string,
-            carnaticNotation: STRING_POSITIONS[string][semitonesFromOpen],
-            fingerPosition: semitonesFromOpen,
-            westernNote: noteUpper,
-            octave,
-          });
-        }
+    // Every octave of the note within the instrument's range
+    for (const midiNote of playableMidis(PITCH_CLASSES[note], tuning, instrument)) {
+      for (const location of findLocations(midiNote, tuning, instrument)) {
+        foundPositions.push({
+          string: location.string,
+          carnaticNotation: swaraName(midiNote, saMidi, swaraNames),
+          fingerPosition: location.finger,
+          handPosition: location.handPosition,
+          westernNote: note,
+          octave: Math.floor(midiNote / 12) - 1,
+        });
       }
     }
 
     if (foundPositions.length === 0) {
-      setError('No positions found for this note on the violin');
+      setError(`No positions found for this note on the ${instrument.name.toLowerCase()}`);
     }
 
     setPositions(foundPositions);
@@ -99,7 +72,7 @@ export const NoteFinder = () => {
     <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10">
       <h3 className="text-2xl font-bold mb-4">Note Position Finder</h3>
       <p className="text-slate-400 text-sm mb-6">
-        Enter any Western note (like E#, Db, F, etc.) to see all possible Carnatic positions on your violin
+        Enter any Western note (like E#, Db, F, etc.) to see all possible Carnatic positions on your {instrument.name.toLowerCase()}
       </p>
 
       <div className="flex gap-3 mb-6">
@@ -135,7 +108,7 @@ export const NoteFinder = () => {
       {positions.length > 0 && (
         <div>
           <h4 className="text-lg font-semibold mb-4">
-            Found {positions.length} position{positions.length > 1 ? 's' : ''} for {searchNote.toUpperCase()}
+            Found {positions.length} position{positions.length > 1 ? 's' : ''} for {positions[0].westernNote}
           </h4>
           
           <div className="space-y-3">
@@ -144,17 +117,17 @@ export const NoteFinder = () => {
                 key={idx}
                 className="flex items-center justify-between p-4 rounded-xl border-2 transition-all hover:scale-[1.02]"
                 style={{
-                  backgroundColor: `${STRING_COLORS[pos.string]}15`,
-                  borderColor: STRING_COLORS[pos.string],
+                  backgroundColor: `${instrument.colors[pos.string]}15`,
+                  borderColor: instrument.colors[pos.string],
                 }}
               >
                 <div className="flex items-center gap-4">
                   <div
                     className="w-16 h-16 rounded-full flex items-center justify-center font-bold text-xl"
                     style={{
-                      backgroundColor: `${STRING_COLORS[pos.string]}30`,
-                      border: `3px solid ${STRING_COLORS[pos.string]}`,
-                      color: STRING_COLORS[pos.string],
+                      backgroundColor: `${instrument.colors[pos.string]}30`,
+                      border: `3px solid ${instrument.colors[pos.string]}`,
+                      color: instrument.colors[pos.string],
                     }}
                   >
                     {pos.string}
@@ -164,11 +137,11 @@ export const NoteFinder = () => {
                     <div className="text-sm text-slate-400 mb-1">
                       {pos.string} String • {pos.westernNote}{pos.octave}
                     </div>
-                    <div className="text-3xl font-black" style={{ color: STRING_COLORS[pos.string] }}>
+                    <div className="text-3xl font-black" style={{ color: instrument.colors[pos.string] }}>
                       {pos.carnaticNotation}
                     </div>
                     <div className="text-sm text-slate-300 mt-1">
-                      Finger Position: {pos.fingerPosition === 0 ? 'Open String' : `${pos.fingerPosition}`}
+                      Finger Position: {pos.fingerPosition === 0 ? 'Open String' : `${pos.fingerPosition} · ${formatHandPosition(pos.handPosition)}`}
                     </div>
                   </div>
                 </div>
@@ -184,7 +157,7 @@ export const NoteFinder = () => {
           <div className="mt-6 p-4 bg-blue-500/10 border border-blue-500/30 rounded-xl">
             <p className="text-sm text-slate-300">
               <strong className="text-blue-400">Tip:</strong> Higher octave numbers = higher pitch. 
-              Lower finger positions (0-3) are easier to reach than higher ones (4-7).
+              Lower hand positions (1st-3rd) are easier to reach than higher ones (4th-7th).
             </p>
           </div>
         </div>
@@ -193,7 +166,7 @@ export const NoteFinder = () => {
       {positions.length === 0 && !error && (
         <div className="text-center py-12 text-slate-400">
           <Search size={48} className="mx-auto mb-4 opacity-30" />
-          <p>Enter a note to find all its positions on the violin</p>
+          <p>Enter a note to find all its positions on the {instrument.name.toLowerCase()}</p>
         </div>
       )}
     </div>
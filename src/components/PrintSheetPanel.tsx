@@ -0,0 +1,45 @@
+'use client';
+
+import { Printer } from 'lucide-react';
+import { useAppStore, selectTala, selectInstrument } from '@/lib/store';
+import { PrintSheet } from '@/lib/print-sheet';
+import { downloadFile } from '@/lib/download';
+import { ExportPosition, ParsedScore } from '@/types';
+
+export const PrintSheetPanel = ({
+  score,
+  positions,
+}: {
+  score: ParsedScore;
+  positions: (ExportPosition | null)[];
+}) => {
+  const saMidi = useAppStore((state) => state.saMidi);
+  const ragaId = useAppStore((state) => state.ragaId);
+  const tala = useAppStore(selectTala);
+  const instrument = useAppStore(selectInstrument);
+  const options = { saMidi, ragaId, tala, instrument };
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4">
+      <h3 className="text-lg font-bold mb-2">Print Sheet</h3>
+      <p className="text-xs text-slate-400 mb-3">
+        Western notes with swara, string and finger underneath, lined up by avartanam, on A4 pages
+      </p>
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => downloadFile(PrintSheet.toPDF(score, positions, options), 'application/pdf', PrintSheet.fileName(score, 'pdf'))}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold flex items-center gap-2"
+        >
+          <Printer size={18} />
+          Download PDF
+        </button>
+        <button
+          onClick={() => downloadFile(PrintSheet.toSVG(score, positions, options), 'image/svg+xml', PrintSheet.fileName(score, 'svg'))}
+          className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg font-semibold"
+        >
+          Download SVG
+        </button>
+      </div>
+    </div>
+  );
+};
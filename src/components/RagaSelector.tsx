@@ -0,0 +1,52 @@
+'use client';
+
+import { useAppStore } from '@/lib/store';
+import { JANYA_RAGAS, MELAKARTAS, findRaga, formatScale } from '@/lib/ragas';
+
+export const RagaSelector = () => {
+  const { ragaId, setRagaId } = useAppStore();
+  const raga = findRaga(ragaId);
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4">
+      <h3 className="text-lg font-bold mb-2">Raga</h3>
+      <p className="text-xs text-slate-400 mb-4">
+        Names each swara by the raga&apos;s swarasthanas (e.g. Ga1 instead of Ri2)
+      </p>
+
+      <select
+        value={ragaId || ''}
+        onChange={(e) => setRagaId(e.target.value || undefined)}
+        className="w-full bg-slate-900 text-white p-3 rounded-lg border border-slate-700"
+      >
+        <option value="">None (default names)</option>
+        <optgroup label="Melakarta ragas">
+          {MELAKARTAS.map((r) => (
+            <option key={r.id} value={r.id}>
+              {r.melakarta}. {r.name}
+            </option>
+          ))}
+        </optgroup>
+        <optgroup label="Janya ragas">
+          {JANYA_RAGAS.map((r) => (
+            <option key={r.id} value={r.id}>
+              {r.name}
+            </option>
+          ))}
+        </optgroup>
+      </select>
+
+      {raga && (
+        <div className="mt-3 text-xs text-slate-300 space-y-1 font-mono">
+          <div><span className="text-slate-500">Aro:</span> {formatScale(raga.arohana)}</div>
+          <div><span className="text-slate-500">Ava:</span> {formatScale(raga.avarohana)}</div>
+          {raga.janya && (
+            <div className="text-slate-500 font-sans">
+              Janya of {MELAKARTAS[raga.melakarta - 1].name} ({raga.melakarta})
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,12 @@
 'use client';
 
-import { useAppStore } from '@/lib/store';
-
-const STRING_COLORS: Record<string, string> = {
-  G: '#ef4444',
-  D: '#06b6d4',
-  A: '#3b82f6',
-  E: '#f97316',
-};
+import { Fragment } from 'react';
+import { Pin } from 'lucide-react';
+import { useAppStore, selectConversionOptions, selectTala, selectInstrument } from '@/lib/store';
+import { CarnaticConverter } from '@/lib/carnatic-converter-correct';
+import { placeInTala } from '@/lib/talas';
+import { WesternNote } from '@/types';
+import { ConversionReport } from './ConversionReport';
 
 export const ScoreDisplay = () => {
   const {
@@ -16,70 +15,173 @@ export const ScoreDisplay = () => {
     currentIndex,
     setCurrentIndex,
     setPlaybackState,
+    fingeringPins,
+    setFingeringPin,
+    conversionReport,
   } = useAppStore();
+  const tala = useAppStore(selectTala);
+  const instrument = useAppStore(selectInstrument);
 
   if (westernNotes.length === 0) {
     return null;
   }
 
+  // Every fingering the selected note could use, for pinning
+  const currentNote = westernNotes[currentIndex];
+  const candidates = currentNote && !currentNote.rest
+    ? CarnaticConverter.candidatePositions(
+        CarnaticConverter.noteToMidi(currentNote.pitch, currentNote.octave),
+        selectConversionOptions(useAppStore.getState())
+      )
+    : [];
+  const currentPin = fingeringPins[currentIndex];
+  const pinValue = currentPin
+    ? candidates.findIndex(c =>
+        c.string === currentPin.string &&
+        c.handPosition === currentPin.handPosition &&
+        c.fingerPosition === currentPin.finger
+      )
+    : -1;
+
+  // Note indices grouped by avartanam, then by anga
+  const avartanams: number[][][] = [];
+  placeInTala(westernNotes.map(n => n.duration), tala).forEach((p, idx) => {
+    if (!avartanams[p.avartanam]) avartanams[p.avartanam] = [];
+    const angas = avartanams[p.avartanam];
+    if (p.startsAnga || angas.length === 0) angas.push([]);
+    angas[angas.length - 1].push(idx);
+  });
+
+  const renderNote = (note: WesternNote, idx: number) => {
+    const position = carnaticPositions[idx];
+    const isCurrent = idx === currentIndex;
+    const isPast = idx < currentIndex;
+
+    return (
+      <button
+        key={idx}
+        onClick={() => {
+          setCurrentIndex(idx);
+          setPlaybackState('paused');
+        }}
+        className={`
+          w-24 p-4 rounded-xl border-2 transition-all text-center
+          ${isCurrent 
+            ? 'bg-gradient-to-br from-blue-500 to-blue-600 border-blue-500 scale-105 shadow-lg shadow-blue-500/50' 
+            : isPast
+              ? 'bg-white/5 border-white/10 opacity-60 hover:opacity-80'
+              : 'bg-white/5 hover:bg-white/10'}
+          ${!isCurrent && position 
+            ? `border-${position.string.toLowerCase()}` 
+            : !isCurrent ? 'border-white/10' : ''}
+        `}
+        style={!isCurrent && position ? {
+          borderColor: `${instrument.colors[position.string]}40`
+        } : {}}
+      >
+        <div className={`text-lg font-bold mb-2 ${isCurrent ? 'text-white' : 'text-slate-200'}`}>
+          {note.rest ? 'Rest' : `${note.pitch}${note.octave}`}
+          {fingeringPins[idx] && <Pin className="inline w-3 h-3 ml-1" />}
+        </div>
+        {position && (
+          <>
+            <div 
+              className={`text-xs font-semibold mb-1 ${isCurrent ? 'text-white/90' : ''}`}
+              style={!isCurrent ? { color: instrument.colors[position.string] } : {}}
+            >
+              {position.string}
+            </div>
+            <div className={`text-sm font-bold ${isCurrent ? 'text-white' : 'text-slate-200'}`}>
+              {position.position}
+            </div>
+            {position.fingerPosition !== 0 && (
+              <div className="text-xs text-slate-400 mt-1">
+                F{position.fingerPosition} · Pos {position.handPosition}
+              </div>
+            )}
+            {position.shift && (
+              <div className="text-xs font-semibold text-yellow-400 mt-1">
+                Shift {position.shift.from}→{position.shift.to}
+              </div>
+            )}
+            {position.octaveShift && (
+              <div className="text-xs font-semibold text-green-400 mt-1">
+                8va {position.octaveShift > 0 ? '↑' : '↓'}{Math.abs(position.octaveShift) > 1 ? ` ×${Math.abs(position.octaveShift)}` : ''}
+              </div>
+            )}
+          </>
+        )}
+        {!position && !note.rest && (
+          <div className="text-xs font-semibold text-red-400">
+            Unplayable
+          </div>
+        )}
+        {note.duration !== 1 && (
+          <div className="text-xs text-slate-400 mt-1">
+            {note.duration}x
+          </div>
+        )}
+      </button>
+    );
+  };
+
   return (
     <div className="bg-white/5 backdrop-blur-sm rounded-2xl p-6 border border-white/10">
       <h3 className="text-xl font-bold mb-6">
         Full Score ({westernNotes.length} notes)
       </h3>
 
-      <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-6 xl:grid-cols-8 gap-3">
-        {westernNotes.map((note, idx) => {
-          const position = carnaticPositions[idx];
-          const isCurrent = idx === currentIndex;
-          const isPast = idx < currentIndex;
+      <div className="mb-6">
+        <ConversionReport issues={conversionReport} />
+      </div>
 
-          return (
-            <button
-              key={idx}
-              onClick={() => {
-                setCurrentIndex(idx);
-                setPlaybackState('paused');
-              }}
-              className={`
-                p-4 rounded-xl border-2 transition-all text-center
-                ${isCurrent 
-                  ? 'bg-gradient-to-br from-blue-500 to-blue-600 border-blue-500 scale-105 shadow-lg shadow-blue-500/50' 
-                  : isPast
-                    ? 'bg-white/5 border-white/10 opacity-60 hover:opacity-80'
-                    : 'bg-white/5 hover:bg-white/10'}
-                ${!isCurrent && position 
-                  ? `border-${position.string.toLowerCase()}` 
-                  : !isCurrent ? 'border-white/10' : ''}
-              `}
-              style={!isCurrent && position ? {
-                borderColor: `${STRING_COLORS[position.string]}40`
-              } : {}}
-            >
-              <div className={`text-lg font-bold mb-2 ${isCurrent ? 'text-white' : 'text-slate-200'}`}>
-                {note.pitch}{note.octave}
-              </div>
-              {position && (
-                <>
-                  <div 
-                    className={`text-xs font-semibold mb-1 ${isCurrent ? 'text-white/90' : ''}`}
-                    style={!isCurrent ? { color: STRING_COLORS[position.string] } : {}}
-                  >
-                    {position.string}
-                  </div>
-                  <div className={`text-sm font-bold ${isCurrent ? 'text-white' : 'text-slate-200'}`}>
-                    {position.position}
+      {candidates.length > 0 && (
+        <div className="flex items-center gap-3 mb-6 text-sm">
+          <Pin className="w-4 h-4 text-slate-400" />
+          <span className="text-slate-300">
+            Fingering for note {currentIndex + 1} ({currentNote.pitch}{currentNote.octave}):
+          </span>
+          <select
+            value={pinValue}
+            onChange={(e) => {
+              const choice = candidates[parseInt(e.target.value)];
+              setFingeringPin(currentIndex, choice ? {
+                string: choice.string,
+                handPosition: choice.handPosition,
+                finger: choice.fingerPosition,
+              } : null);
+            }}
+            className="bg-black/30 border border-white/10 rounded-lg px-3 py-2"
+          >
+            <option value={-1}>Auto (optimized)</option>
+            {candidates.map((c, i) => (
+              <option key={i} value={i}>
+                {c.string} string · {c.fingerPosition === 0 ? 'open' : `finger ${c.fingerPosition}, pos ${c.handPosition}`}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {avartanams.map((angas, a) => (
+          <div key={a}>
+            <div className="text-xs text-slate-400 mb-2">
+              Avartanam {a + 1} · {tala.name}
+            </div>
+            <div className="flex flex-wrap items-stretch gap-3">
+              {angas.map((indices, g) => (
+                <Fragment key={g}>
+                  {g > 0 && <div className="w-px bg-white/20" />}
+                  <div className="flex flex-wrap gap-3">
+                    {indices.map((idx) => renderNote(westernNotes[idx], idx))}
                   </div>
-                </>
-              )}
-              {note.duration !== 1 && (
-                <div className="text-xs text-slate-400 mt-1">
-                  {note.duration}x
-                </div>
-              )}
-            </button>
-          );
-        })}
+                </Fragment>
+              ))}
+              <div className="w-1 border-x border-white/30" />
+            </div>
+          </div>
+        ))}
       </div>
     </div>
   );
@@ -1,31 +1,28 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
-import { Play, Pause, RotateCcw, Volume2, VolumeX } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { Play, Pause, RotateCcw, Volume2, VolumeX, Download, Copy, Check, Music, FileMusic, Pin } from 'lucide-react';
 import { getViolinSynth } from '@/lib/audio-synth';
+import { shallow } from 'zustand/shallow';
+import { useAppStore, selectTuning, selectSwaraNames, selectTala, selectInstrument, selectAccompaniment } from '@/lib/store';
+import { swaraName } from '@/lib/shruti';
+import { formatHandPosition, midiToNoteName, noteToMidi, parseNoteSequence } from '@/lib/instrument';
+import { CarnaticConverter } from '@/lib/carnatic-converter-correct';
+import { SwaraExporter } from '@/lib/swara-export';
+import { MidiExporter } from '@/lib/midi-export';
+import { MusicXMLExporter } from '@/lib/musicxml-export';
+import { downloadFile } from '@/lib/download';
+import { SwaraParser } from '@/lib/swara-parser';
+import { placeInTala } from '@/lib/talas';
+import { centsDeviation, formatCents } from '@/lib/intonation';
+import { ConversionReport } from './ConversionReport';
+import { TransposePanel } from './TransposePanel';
+import { PrintSheetPanel } from './PrintSheetPanel';
+import { FollowRepeatsToggle } from './FollowRepeatsToggle';
 
-const STRING_COLORS = {
-  G: '#8b5cf6',
-  D: '#ef4444',
-  A: '#3b82f6',
-  E: '#f59e0b',
-};
-
-const NOTES = {
-  'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3, 'E': 4, 'E#': 5, 'F': 5, 'F#': 6, 'Gb': 6,
-  'G': 7, 'G#': 8, 'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11, 'B#': 0, 'Cb': 11,
-};
-
-const STRING_MIDI = {
-  E: 64,
-  A: 57,
-  D: 50,
-  G: 43,
-};
-
-export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string }) => {
+export const ScrollingNotation = () => {
   const [input, setInput] = useState('G3 A3 B3 C4 D4 E4 F#4 G4');
-  const [notes, setNotes] = useState<any[]>([]);
+  const [inputError, setInputError] = useState('');
   const [playing, setPlaying] = useState(false);
   const [tempo, setTempo] = useState(120);
   const [currentIdx, setCurrentIdx] = useState(0);
@@ -36,64 +33,137 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
   const animationRef = useRef<number>();
   const lastPlayedIdx = useRef(-1);
   const synth = useRef(getViolinSynth());
+  const saMidi = useAppStore((state) => state.saMidi);
+  const tuning = useAppStore(selectTuning, shallow);
+  const swaraNames = useAppStore(selectSwaraNames);
+  const westernNotes = useAppStore((state) => state.westernNotes);
+  const carnaticPositions = useAppStore((state) => state.carnaticPositions);
+  const issues = useAppStore((state) => state.conversionReport);
+  const loadScore = useAppStore((state) => state.loadScore);
+  const transposeScore = useAppStore((state) => state.transposeScore);
+  const fingeringPins = useAppStore((state) => state.fingeringPins);
+  const setFingeringPin = useAppStore((state) => state.setFingeringPin);
+  const ragaId = useAppStore((state) => state.ragaId);
+  const intonation = useAppStore((state) => state.intonation);
+  const scoreMetadata = useAppStore((state) => state.scoreMetadata);
+  const tala = useAppStore(selectTala);
+  const instrument = useAppStore(selectInstrument);
+  const accompaniment = useAppStore(selectAccompaniment, shallow);
+  const accompanimentParts = useAppStore((state) => state.accompaniment);
+  const [accompanimentOn, setAccompanimentOn] = useState(true);
+  const accompanimentTimers = useRef<ReturnType<typeof setTimeout>[]>([]);
+  const [copied, setCopied] = useState(false);
+  const [annotateExports, setAnnotateExports] = useState(true);
 
-  useEffect(() => {
-    if (uploadedNotes) {
-      setInput(uploadedNotes);
-      parseNotesFromInput(uploadedNotes);
-    }
-  }, [uploadedNotes]);
+  // The store's score with the string, finger and hand position optimized over the whole phrase.
+  // Unplayable notes keep their place without a string; folded notes sound where they are played
+  const notes = useMemo(() => westernNotes.map((n, i) => {
+    const position = carnaticPositions[i];
+    const octaveShift = position?.octaveShift ?? 0;
+    return {
+      note: n.pitch,
+      octave: n.octave + octaveShift,
+      midi: n.rest ? NaN : noteToMidi(n.pitch, n.octave) + octaveShift * 12,
+      duration: n.duration,
+      rest: !!n.rest,
+      written: n.rest ? 'rest' : `${n.pitch}${n.octave}`,
+      octaveShift,
+      string: position?.string ?? '', // Empty for rests and unplayable notes
+      finger: position?.fingerPosition ?? 0,
+      handPosition: position?.handPosition ?? 0,
+      shift: position?.shift,
+    };
+  }), [westernNotes, carnaticPositions]);
 
-  const parseNotesFromInput = (inputText: string) => {
-    const parts = inputText.trim().split(/\s+/);
-    const parsed = [];
-    
-    for (const part of parts) {
-      const match = part.match(/^([A-G][#b]?)(\d*):?(\d*\.?\d*)$/i);
-      if (match) {
-        const note = match[1].toUpperCase();
-        const octave = match[2] ? parseInt(match[2]) : 4;
-        const duration = match[3] ? parseFloat(match[3]) : 1;
-        const midi = (octave + 1) * 12 + NOTES[note];
-        
-        let bestString = null;
-        let bestFinger = -1;
-        let minDistance = 999;
-        
-        for (const [str, openMidi] of Object.entries(STRING_MIDI)) {
-          const distance = midi - openMidi;
-          if (distance >= 0 && distance <= 12) {
-            if (distance < minDistance) {
-              minDistance = distance;
-              bestString = str;
-              bestFinger = distance;
-            }
-          }
-        }
-        
-        if (bestString) {
-          parsed.push({
-            note,
-            octave,
-            midi,
-            duration,
-            string: bestString,
-            finger: bestFinger,
-          });
-        }
-      }
-    }
-    
-    setNotes(parsed);
+  // A new score (typed here, uploaded, transposed or in the other repeat order) fills the
+  // text box and plays from the start; pins and accompaniment belong to the store's score
+  useEffect(() => {
+    if (westernNotes.length > 0) setInput(SwaraParser.toNoteString(westernNotes));
+    setInputError('');
     setCurrentIdx(0);
     scrollY.current = 0;
     lastPlayedIdx.current = -1;
-  };
+  }, [westernNotes]);
 
   const parseNotes = () => {
-    parseNotesFromInput(input);
+    try {
+      loadScore(parseNoteSequence(input));
+    } catch (error) {
+      setInputError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Notes are exported at the octave they are played in
+  const exportScore = () => ({
+    ...scoreMetadata,
+    notes: notes.map(n => ({ pitch: n.note, octave: n.octave, duration: n.duration, rest: n.rest })),
+  });
+
+  const downloadSwaras = () => {
+    const score = exportScore();
+    downloadFile(SwaraExporter.toText(score, [], { saMidi, ragaId, tala }), 'text/plain;charset=utf-8', SwaraExporter.fileName(score));
+  };
+
+  // Strings and fingers travel with the notes; swaras are worked out from the played octave
+  const exportPositions = () =>
+    notes.map(n => n.string ? { string: n.string, fingerPosition: n.finger, handPosition: n.handPosition } : null);
+
+  const exportOptions = () => ({
+    saMidi,
+    ragaId,
+    swaras: annotateExports,
+    fingering: annotateExports,
+    instrumentId: instrument.id,
+  });
+
+  const downloadMidi = () => {
+    const score = exportScore();
+    downloadFile(MidiExporter.toMidi(score, exportPositions(), exportOptions()), 'audio/midi', MidiExporter.fileName(score));
+  };
+
+  const downloadMusicXML = () => {
+    const score = exportScore();
+    downloadFile(
+      MusicXMLExporter.toMusicXML(score, exportPositions(), exportOptions()),
+      'application/vnd.recordare.musicxml+xml',
+      MusicXMLExporter.fileName(score)
+    );
   };
 
+  const copySwaras = async () => {
+    try {
+      await navigator.clipboard.writeText(SwaraExporter.toText(exportScore(), [], { saMidi, ragaId, tala }));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying swaras:', error);
+      alert('Could not copy to the clipboard. Use Download instead.');
+    }
+  };
+
+  // Accompaniment notes by start beat, scheduled under the melody note sounding at that beat
+  const accompanimentEvents = useMemo(() => {
+    const events: Array<{ start: number; midi: number; duration: number }> = [];
+    accompaniment.forEach(part => {
+      let beat = 0;
+      part.forEach(note => {
+        if (!note.rest) events.push({ start: beat, midi: noteToMidi(note.pitch, note.octave), duration: note.duration });
+        beat += note.duration;
+      });
+    });
+    return events.sort((a, b) => a.start - b.start);
+  }, [accompaniment]);
+
+  // Stop scheduled accompaniment when playback pauses or resets, or the view goes away mid-playback
+  useEffect(() => {
+    const stopAccompaniment = () => {
+      accompanimentTimers.current.forEach(clearTimeout);
+      accompanimentTimers.current = [];
+    };
+    if (!playing) stopAccompaniment();
+    return stopAccompaniment;
+  }, [playing]);
+
   useEffect(() => {
     synth.current.setVolume(volume);
   }, [volume]);
@@ -112,15 +182,36 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
     
     const w = rect.width;
     const h = rect.height;
-    const laneW = w / 4;
+    const laneW = w / instrument.strings.length;
     const targetY = h - 120;
     const spacing = 200;
+    const placements = placeInTala(notes.map(n => n.duration), tala);
+    const starts: number[] = [];
+    notes.reduce((beat, n) => {
+      starts.push(beat);
+      return beat + (n.duration || 1);
+    }, 0);
+
+    // Accompaniment starting while melody note idx sounds, offset from its start
+    const playAccompaniment = (idx: number) => {
+      const secondsPerBeat = 60 / tempo;
+      const from = starts[idx];
+      const to = idx + 1 < starts.length ? starts[idx + 1] : Infinity;
+      accompanimentEvents
+        .filter(e => e.start >= from - 1e-6 && e.start < to - 1e-6)
+        .forEach(e => {
+          accompanimentTimers.current.push(setTimeout(
+            () => synth.current.playNote(e.midi, e.duration * secondsPerBeat, 0.5),
+            (e.start - from) * secondsPerBeat * 1000
+          ));
+        });
+    };
     
     const draw = () => {
       ctx.fillStyle = '#0f172a';
       ctx.fillRect(0, 0, w, h);
       
-      ['G', 'D', 'A', 'E'].forEach((str, i) => {
+      instrument.strings.forEach((str, i) => {
         const x = i * laneW;
         
         ctx.strokeStyle = 'rgba(255,255,255,0.1)';
@@ -130,16 +221,16 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
         ctx.lineTo(x + laneW, h);
         ctx.stroke();
         
-        ctx.fillStyle = STRING_COLORS[str as keyof typeof STRING_COLORS];
+        ctx.fillStyle = instrument.colors[str];
         ctx.font = 'bold 48px sans-serif';
         ctx.textAlign = 'center';
         ctx.fillText(str, x + laneW/2, 60);
         
         ctx.font = '14px sans-serif';
         ctx.fillStyle = 'rgba(255,255,255,0.5)';
-        ctx.fillText('STRING', x + laneW/2, 90);
+        ctx.fillText(`${midiToNoteName(tuning[str])} · ${swaraName(tuning[str], saMidi, swaraNames)}`, x + laneW/2, 90);
         
-        ctx.strokeStyle = STRING_COLORS[str as keyof typeof STRING_COLORS];
+        ctx.strokeStyle = instrument.colors[str];
         ctx.lineWidth = 6;
         ctx.beginPath();
         ctx.moveTo(x + 30, targetY);
@@ -155,11 +246,33 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
         scrollY.current += tempo / 30;
       }
       
+      // Tala dividers halfway before the first note of each anga; heavier for a new avartanam
+      placements.forEach((p, idx) => {
+        if (idx === 0 || !p.startsAnga) return;
+        const lineY = targetY - (idx * spacing) + scrollY.current + spacing / 2;
+        if (lineY < 0 || lineY > h) return;
+
+        ctx.strokeStyle = p.startsAvartanam ? 'rgba(255,255,255,0.5)' : 'rgba(255,255,255,0.2)';
+        ctx.lineWidth = p.startsAvartanam ? 3 : 1;
+        ctx.setLineDash(p.startsAvartanam ? [] : [8, 8]);
+        ctx.beginPath();
+        ctx.moveTo(0, lineY);
+        ctx.lineTo(w, lineY);
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        if (p.startsAvartanam) {
+          ctx.fillStyle = 'rgba(255,255,255,0.5)';
+          ctx.font = 'bold 12px sans-serif';
+          ctx.textAlign = 'left';
+          ctx.textBaseline = 'bottom';
+          ctx.fillText(`Avartanam ${p.avartanam + 1}`, 8, lineY - 4);
+        }
+      });
+      
       notes.forEach((n, idx) => {
-        const laneIdx = ['G', 'D', 'A', 'E'].indexOf(n.string);
-        if (laneIdx === -1) return;
-        
-        const x = laneIdx * laneW + laneW / 2;
+        const laneIdx = instrument.strings.indexOf(n.string);
+        const x = laneIdx === -1 ? w / 2 : laneIdx * laneW + laneW / 2;
         const y = targetY - (idx * spacing) + scrollY.current;
         
         const noteHeight = Math.min(spacing * (n.duration || 1) * 0.8, spacing * 3);
@@ -171,27 +284,54 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
         if (isActive && idx !== lastPlayedIdx.current && soundEnabled && playing) {
           lastPlayedIdx.current = idx;
           synth.current.resume();
-          const noteDuration = (n.duration || 1) * (60 / tempo);
-          synth.current.playWesternNote(n.note, n.octave, noteDuration);
+          if (!n.rest) {
+            const noteDuration = (n.duration || 1) * (60 / tempo);
+            synth.current.playWesternNote(n.note, n.octave, noteDuration);
+          }
+          if (accompanimentOn) playAccompaniment(idx);
         }
         
         if (isActive && idx !== currentIdx) {
           setCurrentIdx(idx);
         }
+
+        // Rest: a dash between the lanes
+        if (n.rest) {
+          ctx.fillStyle = isActive ? '#fff' : 'rgba(148,163,184,0.7)';
+          ctx.font = `bold ${isActive ? 44 : 36}px sans-serif`;
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText('—', x, y);
+          ctx.font = '13px sans-serif';
+          ctx.fillText('rest', x, y + 34);
+          return;
+        }
+
+        // Out-of-range note: a marker between the lanes instead of a finger
+        if (laneIdx === -1) {
+          ctx.fillStyle = isActive ? '#f87171' : 'rgba(148,163,184,0.7)';
+          ctx.font = `bold ${isActive ? 56 : 44}px sans-serif`;
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText('✕', x, y);
+          ctx.font = '13px sans-serif';
+          ctx.fillText(`${n.written} out of range`, x, y + 44);
+          return;
+        }
         
         const radius = isActive ? 60 : 45;
         
         if (noteHeight > radius * 2) {
-          ctx.fillStyle = y > targetY + 50 ? '#555' : STRING_COLORS[n.string as keyof typeof STRING_COLORS] + '80';
+          ctx.fillStyle = y > targetY + 50 ? '#555' : instrument.colors[n.string] + '80';
           ctx.fillRect(x - 12, y - noteHeight + radius, 24, noteHeight - radius * 2);
         }
         
         ctx.beginPath();
         ctx.arc(x, y, radius, 0, Math.PI * 2);
-        ctx.fillStyle = y > targetY + 50 ? '#555' : STRING_COLORS[n.string as keyof typeof STRING_COLORS];
+        ctx.fillStyle = y > targetY + 50 ? '#555' : instrument.colors[n.string];
         
         if (isActive) {
-          ctx.shadowColor = STRING_COLORS[n.string as keyof typeof STRING_COLORS];
+          ctx.shadowColor = instrument.colors[n.string];
           ctx.shadowBlur = 30;
         }
         ctx.fill();
@@ -202,10 +342,26 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
         ctx.textAlign = 'center';
         ctx.textBaseline = 'middle';
         ctx.fillText(n.finger.toString(), x, y);
+
+        // Hand position above the note, with an arrow where a shift happens
+        if (n.handPosition > 1 || n.shift) {
+          const arrow = n.shift ? (n.shift.to > n.shift.from ? '▲ ' : '▼ ') : '';
+          ctx.fillStyle = n.shift ? '#facc15' : 'rgba(255,255,255,0.7)';
+          ctx.font = 'bold 13px sans-serif';
+          ctx.fillText(`${arrow}Pos ${n.handPosition}`, x, y - radius - 14);
+        }
         
         ctx.fillStyle = isActive ? '#fff' : '#ddd';
         ctx.font = `${isActive ? 'bold 16px' : '14px'} sans-serif`;
-        ctx.fillText(`${n.note}${n.octave}`, x, y + radius + 20);
+        ctx.fillText(swaraName(n.midi, saMidi, swaraNames), x, y + radius + 20);
+
+        ctx.fillStyle = 'rgba(255,255,255,0.6)';
+        ctx.font = '12px sans-serif';
+        ctx.fillText(
+          n.octaveShift ? `${n.written} → ${n.note}${n.octave}` : n.written,
+          x,
+          y + radius + 38
+        );
       });
       
       animationRef.current = requestAnimationFrame(draw);
@@ -216,15 +372,30 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
     return () => {
       if (animationRef.current) cancelAnimationFrame(animationRef.current);
     };
-  }, [notes, playing, tempo, currentIdx, soundEnabled]);
+  }, [notes, playing, tempo, currentIdx, soundEnabled, saMidi, tuning, swaraNames, tala, instrument, accompanimentEvents, accompanimentOn]);
+
+  // Every fingering the note on the line could use, for pinning; folded notes use the pitch they are played at
+  const currentNote = notes[currentIdx];
+  const pinCandidates = currentNote && !currentNote.rest
+    ? CarnaticConverter.candidatePositions(currentNote.midi, { saMidi, instrument, tuning })
+    : [];
+  const currentPin = fingeringPins[currentIdx];
+  const pinValue = currentPin
+    ? pinCandidates.findIndex(c =>
+        c.string === currentPin.string &&
+        c.handPosition === currentPin.handPosition &&
+        c.fingerPosition === currentPin.finger
+      )
+    : -1;
 
   return (
     <div className="space-y-4">
       <div className="bg-blue-500/10 border border-blue-500/30 rounded-xl p-4">
         <h3 className="font-bold text-blue-400 mb-2">How to Play:</h3>
         <ul className="text-sm text-slate-300 space-y-1">
-          <li>• Each column = a violin string (G, D, A, E)</li>
+          <li>• Each column = a {instrument.name.toLowerCase()} string ({instrument.strings.join(', ')}) with its tuned pitch</li>
           <li>• Numbers = finger positions (0=open, 1=index, 2=middle, 3=ring, 4=pinky)</li>
+          <li>• "Pos 3" = hand position; ▲/▼ in yellow = shift up/down before that note</li>
           <li>• When number hits the line → play that finger on that string!</li>
         </ul>
       </div>
@@ -234,10 +405,11 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
         <textarea
           value={input}
           onChange={(e) => setInput(e.target.value)}
-          placeholder="G3 A3 B3 C4 D4 (or with duration: G3:2 A3:1 B3:0.5)"
+          placeholder="G3 A3 B3 C4 D4 (or with duration: G3:2 A3:1 B3:0.5, z for a rest)"
           className="w-full bg-slate-900 text-white p-3 rounded-lg border border-slate-700 font-mono"
           rows={2}
         />
+        {inputError && <div className="mt-2 text-sm text-red-400">{inputError}</div>}
         <button
           onClick={parseNotes}
           className="mt-2 px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold"
@@ -246,6 +418,10 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
         </button>
       </div>
 
+      {notes.length > 0 && <TransposePanel notes={westernNotes} onApply={transposeScore} />}
+
+      {notes.length > 0 && <PrintSheetPanel score={exportScore()} positions={exportPositions()} />}
+
       {notes.length > 0 && (
         <div className="bg-slate-800 rounded-xl p-4 space-y-4">
           <div className="flex items-center justify-between flex-wrap gap-4">
@@ -272,6 +448,43 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
               >
                 <RotateCcw size={24} />
               </button>
+              <button
+                onClick={downloadSwaras}
+                className="px-4 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg"
+                title="Download swara notation"
+              >
+                <Download size={24} />
+              </button>
+              <button
+                onClick={copySwaras}
+                className="px-4 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg"
+                title="Copy swara notation"
+              >
+                {copied ? <Check size={24} className="text-green-400" /> : <Copy size={24} />}
+              </button>
+              <button
+                onClick={downloadMidi}
+                className="px-4 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg"
+                title="Download MIDI file"
+              >
+                <Music size={24} />
+              </button>
+              <button
+                onClick={downloadMusicXML}
+                className="px-4 py-3 bg-slate-700 hover:bg-slate-600 rounded-lg"
+                title="Download MusicXML for MuseScore"
+              >
+                <FileMusic size={24} />
+              </button>
+              <label className="flex items-center gap-2 text-sm text-slate-300" title="Write swaras as lyrics and string/finger markings in MIDI and MusicXML downloads">
+                <input
+                  type="checkbox"
+                  checked={annotateExports}
+                  onChange={(e) => setAnnotateExports(e.target.checked)}
+                  className="rounded"
+                />
+                Swaras &amp; fingering
+              </label>
             </div>
             
             <div className="flex items-center gap-3">
@@ -286,6 +499,8 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
               />
               <span className="text-lg font-bold w-12">{tempo}</span>
             </div>
+
+            <FollowRepeatsToggle />
           </div>
 
           <div className="flex items-center justify-between pt-4 border-t border-slate-700">
@@ -299,6 +514,17 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
               <span className="text-sm text-slate-400">
                 {soundEnabled ? 'Sound ON' : 'Sound OFF'}
               </span>
+              {accompanimentParts.length > 0 && (
+                <label className="flex items-center gap-2 text-sm text-slate-300 ml-4">
+                  <input
+                    type="checkbox"
+                    checked={accompanimentOn}
+                    onChange={(e) => setAccompanimentOn(e.target.checked)}
+                    className="rounded"
+                  />
+                  Accompaniment ({accompanimentParts.map(p => p.name).join(', ')})
+                </label>
+              )}
             </div>
             
             {soundEnabled && (
@@ -319,27 +545,84 @@ export const ScrollingNotation = ({ uploadedNotes }: { uploadedNotes?: string })
         </div>
       )}
 
+      {notes.length > 0 && <ConversionReport issues={issues} />}
+
       <div className="bg-slate-800 rounded-xl overflow-hidden border-4 border-slate-700">
         <canvas ref={canvasRef} className="w-full" style={{ height: '700px' }} />
       </div>
 
-      {notes[currentIdx] && (
-        <div className="bg-slate-800 rounded-xl p-8 text-center border-4" style={{ borderColor: STRING_COLORS[notes[currentIdx].string as keyof typeof STRING_COLORS] }}>
+      {currentNote && currentNote.rest && (
+        <div className="bg-slate-800 rounded-xl p-8 text-center border-4 border-slate-600">
+          <div className="text-sm text-slate-400 mb-2">NOW PLAYING:</div>
+          <div className="text-3xl font-bold text-slate-300">REST</div>
+        </div>
+      )}
+
+      {currentNote && !currentNote.rest && !currentNote.string && (
+        <div className="bg-slate-800 rounded-xl p-8 text-center border-4 border-red-400">
+          <div className="text-sm text-slate-400 mb-2">NOW PLAYING:</div>
+          <div className="text-3xl font-bold text-red-400 mb-2">OUT OF RANGE</div>
+          <div className="text-lg text-slate-400">({currentNote.written})</div>
+        </div>
+      )}
+
+      {currentNote && currentNote.string && (
+        <div className="bg-slate-800 rounded-xl p-8 text-center border-4" style={{ borderColor: instrument.colors[currentNote.string] }}>
           <div className="text-sm text-slate-400 mb-2">NOW PLAYING:</div>
-          <div className="text-8xl font-black mb-4" style={{ color: STRING_COLORS[notes[currentIdx].string as keyof typeof STRING_COLORS] }}>
-            {notes[currentIdx].finger}
+          <div className="text-8xl font-black mb-4" style={{ color: instrument.colors[currentNote.string] }}>
+            {currentNote.finger}
           </div>
-          <div className="text-3xl font-bold mb-2" style={{ color: STRING_COLORS[notes[currentIdx].string as keyof typeof STRING_COLORS] }}>
-            {notes[currentIdx].string} STRING
+          <div className="text-3xl font-bold mb-2" style={{ color: instrument.colors[currentNote.string] }}>
+            {currentNote.string} STRING
           </div>
           <div className="text-xl text-slate-300">
-            {notes[currentIdx].finger === 0 ? 'OPEN STRING' : `FINGER ${notes[currentIdx].finger}`}
+            {currentNote.finger === 0 ? 'OPEN STRING' : `FINGER ${currentNote.finger}`}
+            {currentNote.finger !== 0 && ` · ${formatHandPosition(currentNote.handPosition).toUpperCase()}`}
+          </div>
+          {currentNote.shift && (
+            <div className="text-lg font-bold text-yellow-400 mt-1">
+              SHIFT {currentNote.shift.from} → {currentNote.shift.to}
+            </div>
+          )}
+          <div className="text-2xl font-bold text-white mt-2">
+            {swaraName(currentNote.midi, saMidi, swaraNames)}
           </div>
           <div className="text-lg text-slate-400 mt-2">
-            ({notes[currentIdx].note}{notes[currentIdx].octave})
+            ({currentNote.note}{currentNote.octave})
+            {currentNote.octaveShift !== 0 && ` · written ${currentNote.written}`}
+            {intonation !== 'equal' && ` · ${formatCents(centsDeviation(currentNote.midi, saMidi, intonation, ragaId))} from equal temperament`}
           </div>
         </div>
       )}
+
+      {pinCandidates.length > 0 && (
+        <div className="bg-slate-800 rounded-xl p-4 flex items-center gap-3 flex-wrap text-sm">
+          <Pin size={16} className="text-slate-400" />
+          <span className="text-slate-300">
+            Fingering for note {currentIdx + 1} ({currentNote.written}):
+          </span>
+          <select
+            value={pinValue}
+            onChange={(e) => {
+              const choice = pinCandidates[parseInt(e.target.value)];
+              setFingeringPin(currentIdx, choice ? {
+                string: choice.string,
+                handPosition: choice.handPosition,
+                finger: choice.fingerPosition,
+              } : null);
+            }}
+            className="bg-slate-900 text-white p-2 rounded-lg border border-slate-700"
+          >
+            <option value={-1}>Auto (optimized)</option>
+            {pinCandidates.map((c, i) => (
+              <option key={i} value={i}>
+                {c.string} string · {c.fingerPosition === 0 ? 'open' : `finger ${c.fingerPosition}, ${formatHandPosition(c.handPosition)}`}
+              </option>
+            ))}
+          </select>
+          <span className="text-xs text-slate-500">Pause on a note to pin it</span>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -2,69 +2,47 @@
 
 import { useState } from 'react';
 import { Upload, FileMusic, CheckCircle, AlertCircle } from 'lucide-react';
-
-interface UploadedScore {
-  notes: Array<{ note: string; octave: number; duration?: number }>;
-  title?: string;
-  tempo?: number;
+import { useAppStore } from '@/lib/store';
+import { MusicXMLParser, MusicXMLOptions, PartInfo } from '@/lib/music-parser';
+import { MidiParser, MidiOptions, MidiTrackInfo } from '@/lib/midi-parser';
+import { SwaraParser } from '@/lib/swara-parser';
+import { spellPitch } from '@/lib/instrument';
+import { ParsedScore } from '@/types';
+
+// Connected ink on a staff, with staff lines removed, as a bounding box in pixels
+interface Glyph {
+  left: number;
+  right: number;
+  top: number;
+  bottom: number;
 }
 
-export const SheetMusicUpload = ({ onScoreLoaded }: { onScoreLoaded: (notes: string) => void }) => {
+type Clef = 'treble' | 'alto' | 'tenor' | 'bass';
+
+// Note on the middle staff line of each clef, as a letter index (C = 0) and octave
+const CLEF_MIDDLE_LINE: Record<Clef, { index: number; octave: number }> = {
+  treble: { index: 6, octave: 4 }, // B4
+  alto: { index: 0, octave: 4 }, // C4
+  tenor: { index: 5, octave: 3 }, // A3
+  bass: { index: 1, octave: 3 }, // D3
+};
+
+const SHARP_ORDER = 'FCGDAEB';
+
+export const SheetMusicUpload = ({ onScoreLoaded }: { onScoreLoaded?: (notes: string) => void }) => {
   const [uploading, setUploading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
   const [ocrProgress, setOcrProgress] = useState('');
-
-  const parseMusicXML = async (xmlContent: string): Promise<UploadedScore> => {
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(xmlContent, 'text/xml');
-
-    const score: UploadedScore = { notes: [] };
-
-    // Extract title
-    const title = xmlDoc.querySelector('work-title');
-    if (title) score.title = title.textContent || undefined;
-
-    // Extract tempo
-    const tempo = xmlDoc.querySelector('sound[tempo]');
-    if (tempo) score.tempo = parseFloat(tempo.getAttribute('tempo') || '120');
-
-    // Extract notes from all measures
-    const measures = xmlDoc.querySelectorAll('measure');
-    measures.forEach(measure => {
-      const noteElements = measure.querySelectorAll('note');
-      noteElements.forEach(noteElement => {
-        // Skip rests
-        if (noteElement.querySelector('rest')) return;
-
-        const pitch = noteElement.querySelector('pitch');
-        if (pitch) {
-          const step = pitch.querySelector('step')?.textContent || 'C';
-          const alter = pitch.querySelector('alter')?.textContent;
-          const octave = parseInt(pitch.querySelector('octave')?.textContent || '4');
-          
-          // Handle sharps/flats
-          let noteName = step;
-          if (alter) {
-            const alterValue = parseInt(alter);
-            if (alterValue === 1) noteName += '#';
-            else if (alterValue === -1) noteName += 'b';
-          }
-
-          const type = noteElement.querySelector('type')?.textContent || 'quarter';
-          const duration = type === 'whole' ? 4 : type === 'half' ? 2 : type === 'eighth' ? 0.5 : type === 'sixteenth' ? 0.25 : 1;
-
-          score.notes.push({
-            note: noteName,
-            octave,
-            duration,
-          });
-        }
-      });
-    });
-
-    return score;
-  };
+  const [ocrWarning, setOcrWarning] = useState('');
+  const [pageRange, setPageRange] = useState('');
+  // A MusicXML file with several parts, voices or staves waits here until one is picked
+  const [pending, setPending] = useState<{ text: string; parts: PartInfo[] } | null>(null);
+  const [selection, setSelection] = useState<MusicXMLOptions>({});
+  // Likewise a MIDI file with several tracks or channels
+  const [pendingMidi, setPendingMidi] = useState<{ buffer: ArrayBuffer; tracks: MidiTrackInfo[] } | null>(null);
+  const [midiSelection, setMidiSelection] = useState<MidiOptions>({});
+  const { loadScore, setMetadata } = useAppStore();
 
   const extractStaffLinesFromImage = (imageData: ImageData): number[] => {
     const { data, width, height } = imageData;
@@ -84,12 +62,14 @@ export const SheetMusicUpload = ({ onScoreLoaded }: { onScoreLoaded: (notes: str
       rowDensity.push(blackPixels / width);
     }
     
-    // Find peaks (staff lines have high density)
+    // Find peaks (staff lines have high density, close to the densest row since they cross
+    // the page, where noteheads, beams and text only cover part of a row)
     const avgDensity = rowDensity.reduce((a, b) => a + b, 0) / rowDensity.length;
+    const minDensity = Math.max(avgDensity * 2, Math.max(...rowDensity) * 0.5);
     for (let y = 5; y < height - 5; y++) {
-      if (rowDensity[y] > avgDensity * 2) {
-        // Check if it's a local maximum
-        if (rowDensity[y] > rowDensity[y - 1] && rowDensity[y] > rowDensity[y + 1]) {
+      if (rowDensity[y] > minDensity) {
+        // Check if it's a local maximum (the last row of a line several pixels thick)
+        if (rowDensity[y] >= rowDensity[y - 1] && rowDensity[y] > rowDensity[y + 1]) {
           staffLines.push(y);
         }
       }
@@ -98,17 +78,49 @@ export const SheetMusicUpload = ({ onScoreLoaded }: { onScoreLoaded: (notes: str
     return staffLines;
   };
 
-  const detectNoteheadsFromImage = (imageData: ImageData, staffLines: number[]): Array<{x: number, y: number, filled: boolean}> => {
+  // Group detected lines into five-line staves, top to bottom
+  const groupStaves = (staffLines: number[]): number[][] => {
+    // Thick lines show up as neighbouring peaks; keep one per line
+    const lines: number[] = [];
+    for (const y of [...staffLines].sort((a, b) => a - b)) {
+      if (lines.length > 0 && y - lines[lines.length - 1] <= 2) continue;
+      lines.push(y);
+    }
+
+    // Five lines with near-equal gaps make a staff; anything else (ledger lines, beams, text) is skipped
+    const staves: number[][] = [];
+    for (let i = 0; i + 5 <= lines.length; ) {
+      const candidate = lines.slice(i, i + 5);
+      const gaps = candidate.slice(1).map((y, j) => y - candidate[j]);
+      const spacing = (candidate[4] - candidate[0]) / 4;
+      if (spacing >= 4 && gaps.every(gap => Math.abs(gap - spacing) <= spacing * 0.25)) {
+        staves.push(candidate);
+        i += 5;
+      } else {
+        i++;
+      }
+    }
+    return staves;
+  };
+
+  const detectNoteheadsFromImage = (
+    imageData: ImageData,
+    staffLines: number[],
+    top = 0,
+    bottom = imageData.height
+  ): Array<{x: number, y: number, filled: boolean}> => {
     const { data, width, height } = imageData;
-    const noteheads: Array<{x: number, y: number, filled: boolean}> = [];
+    const noteheads: Array<{x: number, y: number, filled: boolean, fill: number}> = [];
     
-    if (staffLines.length < 5) return noteheads;
+    if (staffLines.length < 5) return [];
     
     const staffSpacing = (staffLines[4] - staffLines[0]) / 4;
     const noteheadRadius = Math.floor(staffSpacing * 0.6);
     
-    // Scan for circular shapes (noteheads)
-    for (let y = 0; y < height - noteheadRadius * 2; y += 2) {
+    // Scan for circular shapes (noteheads) within this staff's band of the page
+    const firstY = Math.max(0, Math.floor(top) - noteheadRadius);
+    const lastY = Math.min(height - noteheadRadius * 2, Math.ceil(bottom) - noteheadRadius);
+    for (let y = firstY; y < lastY; y += 2) {
       for (let x = 0; x < width - noteheadRadius * 2; x += 2) {
         let blackCount = 0;
         let totalCount = 0;
@@ -134,38 +146,38 @@ export const SheetMusicUpload = ({ onScoreLoaded }: { onScoreLoaded: (notes: str
           noteheads.push({
             x: x + noteheadRadius,
             y: y + noteheadRadius,
-            filled: fillRatio > 0.6
+            filled: fillRatio > 0.6,
+            fill: fillRatio
           });
         }
       }
     }
     
-    // Remove duplicates (noteheads detected multiple times)
+    // Remove duplicates (noteheads detected multiple times), keeping the fullest match,
+    // which sits on the notehead's centre rather than its edge
     const filtered: typeof noteheads = [];
-    for (const note of noteheads) {
+    for (const note of noteheads.sort((a, b) => b.fill - a.fill)) {
       const isDuplicate = filtered.some(n => 
-        Math.abs(n.x - note.x) < noteheadRadius && 
-        Math.abs(n.y - note.y) < noteheadRadius
+        Math.abs(n.x - note.x) < noteheadRadius * 2 && 
+        Math.abs(n.y - note.y) < noteheadRadius * 2
       );
       if (!isDuplicate) filtered.push(note);
     }
     
-    return filtered;
+    return filtered.map(({ x, y, filled }) => ({ x, y, filled }));
   };
 
-  const convertPositionToNote = (y: number, staffLines: number[]): { note: string, octave: number } => {
+  const convertPositionToNote = (y: number, staffLines: number[], clef: Clef = 'treble'): { note: string, octave: number } => {
     if (staffLines.length < 5) return { note: 'C', octave: 4 };
     
     const staffSpacing = (staffLines[4] - staffLines[0]) / 4;
     
-    // Calculate position relative to middle line (B4 on treble clef)
+    // Calculate position relative to the middle line
     const middleLine = staffLines[2];
     const relativePosition = Math.round((middleLine - y) / (staffSpacing / 2));
     
-    // Treble clef mapping (assuming treble clef for violin)
     const noteSequence = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
-    const baseOctave = 4;
-    const baseNoteIndex = 6; // B at middle line
+    const { index: baseNoteIndex, octave: baseOctave } = CLEF_MIDDLE_LINE[clef];
     
     const noteIndex = (baseNoteIndex + relativePosition) % 7;
     const octaveOffset = Math.floor((baseNoteIndex + relativePosition) / 7);
@@ -176,7 +188,180 @@ export const SheetMusicUpload = ({ onScoreLoaded }: { onScoreLoaded: (notes: str
     };
   };
 
-  const parsePDFWithOCR = async (file: File): Promise<UploadedScore> => {
+  // Connected shapes around a staff, three spaces above and below it. Staff-line pixels count
+  // only where a shape touches the line, so symbols don't join up along the lines
+  const findGlyphs = (imageData: ImageData, staff: number[]): { glyphs: Glyph[]; ink: (x: number, y: number) => boolean } => {
+    const { data, width, height } = imageData;
+    const spacing = (staff[4] - staff[0]) / 4;
+    const thickness = Math.max(1, Math.round(spacing * 0.12));
+    const top = Math.max(0, Math.floor(staff[0] - spacing * 3));
+    const bottom = Math.min(height - 1, Math.ceil(staff[4] + spacing * 3));
+
+    const dark = (x: number, y: number) => {
+      if (x < 0 || x >= width || y < 0 || y >= height) return false;
+      const idx = (y * width + x) * 4;
+      return (data[idx] + data[idx + 1] + data[idx + 2]) / 3 < 200;
+    };
+    const ink = (x: number, y: number) => {
+      if (!dark(x, y)) return false;
+      const line = staff.find(l => Math.abs(y - l) <= thickness);
+      return line === undefined || dark(x, line - thickness - 1) || dark(x, line + thickness + 1);
+    };
+
+    const glyphs: Glyph[] = [];
+    const visited = new Uint8Array(width * (bottom - top + 1));
+    for (let y = top; y <= bottom; y++) {
+      for (let x = 0; x < width; x++) {
+        if (visited[(y - top) * width + x] || !ink(x, y)) continue;
+
+        const glyph: Glyph = { left: x, right: x, top: y, bottom: y };
+        const stack = [x, y];
+        let pixels = 0;
+        visited[(y - top) * width + x] = 1;
+        while (stack.length > 0) {
+          const cy = stack.pop()!;
+          const cx = stack.pop()!;
+          pixels++;
+          glyph.left = Math.min(glyph.left, cx);
+          glyph.right = Math.max(glyph.right, cx);
+          glyph.top = Math.min(glyph.top, cy);
+          glyph.bottom = Math.max(glyph.bottom, cy);
+          for (let dy = -1; dy <= 1; dy++) {
+            for (let dx = -1; dx <= 1; dx++) {
+              const nx = cx + dx;
+              const ny = cy + dy;
+              if (nx < 0 || nx >= width || ny < top || ny > bottom) continue;
+              const key = (ny - top) * width + nx;
+              if (visited[key] || !ink(nx, ny)) continue;
+              visited[key] = 1;
+              stack.push(nx, ny);
+            }
+          }
+        }
+        if (pixels >= 4) glyphs.push(glyph);
+      }
+    }
+
+    return { glyphs: glyphs.sort((a, b) => a.left - b.left), ink };
+  };
+
+  // Sharp (1), flat (-1) or natural (0) from a glyph's vertical strokes: a flat has one stroke
+  // at its left edge, a sharp two of about the same length, a natural two offset by a space
+  const classifyAccidental = (glyph: Glyph, spacing: number, ink: (x: number, y: number) => boolean): number | undefined => {
+    const height = glyph.bottom - glyph.top + 1;
+    const width = glyph.right - glyph.left + 1;
+    if (height < spacing * 1.8 || height > spacing * 3.8 || width > spacing * 1.6) return undefined;
+
+    // Longest vertical run in each column, joined into strokes of neighbouring columns
+    const strokes: Array<{ left: number; right: number; top: number; bottom: number }> = [];
+    for (let x = glyph.left; x <= glyph.right; x++) {
+      let best = { top: 0, bottom: -1 };
+      let start = -1;
+      for (let y = glyph.top; y <= glyph.bottom + 1; y++) {
+        if (y <= glyph.bottom && ink(x, y)) {
+          if (start < 0) start = y;
+        } else if (start >= 0) {
+          if (y - start > best.bottom - best.top + 1) best = { top: start, bottom: y - 1 };
+          start = -1;
+        }
+      }
+      if (best.bottom - best.top + 1 < spacing * 1.6) continue;
+      const last = strokes[strokes.length - 1];
+      if (last && x - last.right <= 1) {
+        last.right = x;
+        last.top = Math.min(last.top, best.top);
+        last.bottom = Math.max(last.bottom, best.bottom);
+      } else {
+        strokes.push({ left: x, right: x, ...best });
+      }
+    }
+
+    if (strokes.length === 1) {
+      return strokes[0].left - glyph.left <= width * 0.3 && width >= spacing * 0.5 ? -1 : undefined;
+    }
+    if (strokes.length !== 2) return undefined;
+    const [first, second] = strokes;
+    const offset = spacing * 0.6;
+    return second.top - first.top > offset && second.bottom - first.bottom > offset ? 0 : 1;
+  };
+
+  // Height on the staff an accidental applies to: the middle of a sharp or natural, the bowl of a flat
+  const accidentalAnchor = (glyph: Glyph, alter: number, spacing: number) =>
+    alter < 0 ? glyph.bottom - spacing * 0.5 : (glyph.top + glyph.bottom) / 2;
+
+  // Clef, key signature, local accidentals and barlines of one staff
+  const readStaffSymbols = (imageData: ImageData, staff: number[]) => {
+    const spacing = (staff[4] - staff[0]) / 4;
+    const { glyphs, ink } = findGlyphs(imageData, staff);
+
+    // Barlines are thin strokes from the top line to the bottom line and no further
+    const isBarline = (g: Glyph) =>
+      g.right - g.left + 1 <= Math.max(3, spacing * 0.6) &&
+      Math.abs(g.top - staff[0]) <= spacing * 0.3 &&
+      Math.abs(g.bottom - staff[4]) <= spacing * 0.3;
+    const barlines = glyphs.filter(isBarline).map(g => (g.left + g.right) / 2);
+
+    // The clef is the first tall, wide shape: a treble clef reaches well outside the staff,
+    // a bass clef covers its top three spaces, and a C clef centres on the line it names
+    const staffLeft = glyphs.find(g => g.right - g.left + 1 >= spacing * 0.8)?.left ?? 0;
+    const clefGlyph = glyphs
+      .filter(g => g.left <= staffLeft + spacing * 3 && g.right - g.left + 1 >= spacing * 0.8 && g.bottom - g.top + 1 >= spacing * 2.5)
+      .sort((a, b) => (b.bottom - b.top) - (a.bottom - a.top))[0];
+    let clef: Clef = 'treble';
+    let headerEnd = 0;
+    if (clefGlyph) {
+      const height = clefGlyph.bottom - clefGlyph.top + 1;
+      const centre = (clefGlyph.top + clefGlyph.bottom) / 2;
+      if (height >= spacing * 5) clef = 'treble';
+      else if (height < spacing * 3.6) clef = 'bass';
+      else clef = Math.abs(centre - staff[1]) < Math.abs(centre - staff[2]) ? 'tenor' : 'alto';
+      headerEnd = clefGlyph.right;
+    }
+
+    // Key signature: a run of sharps or of flats close behind the clef
+    const keyAlters: Record<string, number> = {};
+    let count = 0;
+    let sign = 0;
+    for (const glyph of glyphs) {
+      // Markings above or below the staff, and a bass clef's dots, don't interrupt the signature
+      if (glyph.left <= headerEnd || glyph.bottom < staff[0] || glyph.top > staff[4]) continue;
+      if (glyph.bottom - glyph.top < spacing * 0.6 && glyph.right - glyph.left < spacing * 0.6) continue;
+      if (glyph.left - headerEnd > spacing * 1.5) break;
+      const alter = classifyAccidental(glyph, spacing, ink);
+      if (!alter || (sign && alter !== sign) || count === 7) break;
+      sign = alter;
+      count++;
+      headerEnd = glyph.right;
+    }
+    const order = sign > 0 ? SHARP_ORDER : [...SHARP_ORDER].reverse().join('');
+    for (let i = 0; i < count; i++) keyAlters[order[i]] = sign;
+
+    // Every other accidental-shaped glyph after the header may belong to a note
+    const accidentals = glyphs
+      .filter(g => g.left > headerEnd)
+      .map(glyph => ({ glyph, alter: classifyAccidental(glyph, spacing, ink) }))
+      .filter((a): a is { glyph: Glyph; alter: number } => a.alter !== undefined);
+
+    return { clef, keyAlters, fifths: sign * count, headerEnd, barlines, accidentals };
+  };
+
+  // Pages to read from a PDF, e.g. "1-3, 5" or "4-" (blank means every page)
+  const parsePageRange = (text: string, numPages: number): number[] => {
+    if (!text.trim()) return Array.from({ length: numPages }, (_, i) => i + 1);
+
+    const pages = new Set<number>();
+    for (const part of text.split(',').map(p => p.trim()).filter(Boolean)) {
+      const match = part.match(/^(\d*)\s*(?:-\s*(\d*))?$/);
+      if (!match || (!match[1] && !match[2])) throw new Error(`Invalid page range "${part}"`);
+      const from = match[1] ? parseInt(match[1]) : 1;
+      const to = match[2] !== undefined ? (match[2] ? parseInt(match[2]) : numPages) : from;
+      for (let page = Math.max(1, from); page <= Math.min(numPages, to); page++) pages.add(page);
+    }
+    if (pages.size === 0) throw new Error(`No pages in range "${text}" (the PDF has ${numPages})`);
+    return Array.from(pages).sort((a, b) => a - b);
+  };
+
+  const parsePDFWithOCR = async (file: File): Promise<ParsedScore> => {
     setOcrProgress('Loading PDF...');
     
     const pdfjsLib = await import('pdfjs-dist');
@@ -185,58 +370,132 @@ export const SheetMusicUpload = ({ onScoreLoaded }: { onScoreLoaded: (notes: str
     const arrayBuffer = await file.arrayBuffer();
     const pdf = await pdfjsLib.getDocument({ data: arrayBuffer }).promise;
     
-    const score: UploadedScore = { notes: [] };
-    
-    setOcrProgress(`Processing ${pdf.numPages} page(s)...`);
+    const score: ParsedScore = { notes: [] };
+    const pages = parsePageRange(pageRange, pdf.numPages);
+    const skipped: number[] = [];
 
-    // Process first page (most sheet music has melody on first page)
-    const page = await pdf.getPage(1);
-    const viewport = page.getViewport({ scale: 2.0 });
-    
-    // Create canvas to render PDF
-    const canvas = document.createElement('canvas');
-    canvas.width = viewport.width;
-    canvas.height = viewport.height;
-    const context = canvas.getContext('2d');
-    
-    if (!context) throw new Error('Could not create canvas context');
-    
-    setOcrProgress('Rendering sheet music...');
-    await page.render({ canvasContext: context, viewport }).promise;
-    
-    // Get image data for OCR
-    const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
-    
-    setOcrProgress('Detecting staff lines...');
-    const staffLines = extractStaffLinesFromImage(imageData);
-    
-    if (staffLines.length < 5) {
-      throw new Error('Could not detect staff lines. PDF might be too low quality or not contain standard notation.');
+    // Pages are read in order and their notes appended, so the score follows the printed order
+    for (const [index, pageNumber] of pages.entries()) {
+      const step = (message: string) => setOcrProgress(`Page ${pageNumber} (${index + 1} of ${pages.length}): ${message}`);
+
+      step('Rendering sheet music...');
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: 2.0 });
+      
+      // Create canvas to render PDF
+      const canvas = document.createElement('canvas');
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      const context = canvas.getContext('2d');
+      
+      if (!context) throw new Error('Could not create canvas context');
+      
+      await page.render({ canvasContext: context, viewport }).promise;
+      
+      // Get image data for OCR
+      const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+      page.cleanup();
+      
+      step('Detecting staff lines...');
+      const staves = groupStaves(extractStaffLinesFromImage(imageData));
+      
+      if (staves.length === 0) {
+        skipped.push(pageNumber);
+        continue;
+      }
+      
+      // Each staff reads the band of the page up to halfway to its neighbours, so every
+      // notehead belongs to its nearest staff; staves are read top to bottom
+      let found = 0;
+      for (const [staffIndex, staff] of staves.entries()) {
+        step(`Reading staff ${staffIndex + 1} of ${staves.length}...`);
+        const top = staffIndex > 0 ? (staves[staffIndex - 1][4] + staff[0]) / 2 : 0;
+        const bottom = staffIndex < staves.length - 1 ? (staff[4] + staves[staffIndex + 1][0]) / 2 : imageData.height;
+        const noteheads = detectNoteheadsFromImage(imageData, staff, top, bottom);
+        const spacing = (staff[4] - staff[0]) / 4;
+        const { clef, keyAlters, fifths, headerEnd, barlines, accidentals } = readStaffSymbols(imageData, staff);
+        const key = fifths === 0 ? 'no key signature' : `${Math.abs(fifths)} ${fifths > 0 ? 'sharp' : 'flat'}${Math.abs(fifths) > 1 ? 's' : ''}`;
+        
+        // Sort noteheads left to right, leaving out anything found inside the clef, key signature or an accidental
+        const staffNotes = noteheads
+          .filter(n => n.x > headerEnd)
+          .filter(n => !accidentals.some(({ glyph }) => n.x >= glyph.left && n.x <= glyph.right && n.y >= glyph.top && n.y <= glyph.bottom))
+          .sort((a, b) => a.x - b.x);
+        step(`Staff ${staffIndex + 1} of ${staves.length}: ${clef} clef, ${key}, ${staffNotes.length} notes`);
+        
+        // Convert to musical notes; an accidental lasts until the next barline, for the same line or space
+        let measureAlters: Record<string, number> = {};
+        let barline = 0;
+        for (const notehead of staffNotes) {
+          while (barline < barlines.length && barlines[barline] < notehead.x) {
+            measureAlters = {};
+            barline++;
+          }
+          
+          const { note, octave } = convertPositionToNote(notehead.y, staff, clef);
+          const local = accidentals.find(({ glyph, alter }) =>
+            glyph.right >= notehead.x - spacing * 2.2 &&
+            glyph.right <= notehead.x - spacing * 0.4 &&
+            Math.abs(accidentalAnchor(glyph, alter, spacing) - notehead.y) <= spacing * 0.6
+          );
+          if (local) measureAlters[`${note}${octave}`] = local.alter;
+          const alter = measureAlters[`${note}${octave}`] ?? keyAlters[note] ?? 0;
+          const duration = notehead.filled ? 1 : 2; // Filled = quarter, open = half
+          
+          score.notes.push({ pitch: spellPitch(note, alter), octave, duration });
+        }
+        found += staffNotes.length;
+      }
+      
+      if (found === 0) skipped.push(pageNumber);
     }
-    
-    setOcrProgress('Detecting notes...');
-    const noteheads = detectNoteheadsFromImage(imageData, staffLines);
-    
-    if (noteheads.length === 0) {
+
+    if (score.notes.length === 0) {
       throw new Error('No notes detected. Try using a clearer PDF or MusicXML format.');
     }
-    
-    setOcrProgress(`Found ${noteheads.length} notes! Converting...`);
-    
-    // Sort noteheads left to right
-    noteheads.sort((a, b) => a.x - b.x);
-    
-    // Convert to musical notes
-    for (const notehead of noteheads) {
-      const { note, octave } = convertPositionToNote(notehead.y, staffLines);
-      const duration = notehead.filled ? 1 : 2; // Filled = quarter, open = half
-      
-      score.notes.push({ note, octave, duration });
+    if (skipped.length > 0) {
+      setOcrWarning(`No staff or notes recognized on page${skipped.length > 1 ? 's' : ''} ${skipped.join(', ')}`);
     }
     
     return score;
   };
 
+  const applyScore = (score: ParsedScore) => {
+    if (!score.notes.some(n => !n.rest)) {
+      throw new Error('No notes found in the file');
+    }
+
+    // The store's players time notes and rests from the same durations,
+    // in playback or written order as the player is set
+    loadScore(score.notes, score.writtenNotes, score.accompaniment);
+
+    // The chosen raga and tala stay; the rest describes the new score
+    setMetadata({
+      ...useAppStore.getState().scoreMetadata,
+      title: score.title,
+      composer: score.composer,
+      tempo: score.tempo,
+      timeSignature: score.timeSignature,
+    });
+    onScoreLoaded?.(SwaraParser.toNoteString(useAppStore.getState().westernNotes));
+    setSuccess(`Loaded ${score.title || 'Score'} with ${score.notes.filter(n => !n.rest).length} notes!`);
+  };
+
+  const convertSelection = async () => {
+    setError('');
+    try {
+      if (pending) {
+        applyScore(await MusicXMLParser.parseMusicXML(pending.text, selection));
+        setPending(null);
+      } else if (pendingMidi) {
+        applyScore(MidiParser.parse(pendingMidi.buffer, midiSelection));
+        setPendingMidi(null);
+      }
+    } catch (err: unknown) {
+      setError((err instanceof Error ? err.message : String(err)) || 'Error parsing file');
+    }
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
@@ -245,53 +504,69 @@ export const SheetMusicUpload = ({ onScoreLoaded }: { onScoreLoaded: (notes: str
     setError('');
     setSuccess('');
     setOcrProgress('');
+    setOcrWarning('');
+    setPending(null);
+    setPendingMidi(null);
 
     try {
-      let score: UploadedScore;
-
-      if (file.name.endsWith('.xml') || file.name.endsWith('.musicxml')) {
-        const text = await file.text();
-        score = await parseMusicXML(text);
+      // MusicXML and ABC go through the shared parsers, so timing matches playback everywhere
+      let score: ParsedScore;
+
+      if (MusicXMLParser.isMusicXMLFile(file)) {
+        const text = await MusicXMLParser.readMusicXMLFile(file);
+        const parts = MusicXMLParser.listParts(text);
+        if (parts.length > 1 || parts.some(p => p.voices.length > 1 || p.staves > 1)) {
+          setPending({ text, parts });
+          setSelection({ partId: parts[0].id, accompaniment: parts.length > 1 });
+          return;
+        }
+        score = await MusicXMLParser.parseMusicXML(text);
         
+      } else if (file.name.endsWith('.abc')) {
+        score = MusicXMLParser.parseABCNotation(await file.text());
+
+      } else if (/\.midi?$/i.test(file.name)) {
+        const buffer = await file.arrayBuffer();
+        const tracks = MidiParser.listTracks(buffer).filter(t => t.noteCount > 0);
+        if (tracks.length > 1 || tracks.some(t => t.channels.length > 1)) {
+          setPendingMidi({ buffer, tracks });
+          setMidiSelection({ track: tracks[0].index, accompaniment: true });
+          return;
+        }
+        score = MidiParser.parse(buffer);
+
       } else if (file.name.endsWith('.pdf')) {
         score = await parsePDFWithOCR(file);
         
       } else {
-        throw new Error('Please upload .xml, .musicxml, or .pdf files');
-      }
-
-      if (score.notes.length === 0) {
-        throw new Error('No notes found in the file');
+        throw new Error('Please upload .xml, .musicxml, .mxl, .mscz, .abc, .mid or .pdf files');
       }
 
-      // Convert to simple format for the main component
-      const noteString = score.notes
-        .map(n => `${n.note}${n.octave}${n.duration && n.duration !== 1 ? ':' + n.duration : ''}`)
-        .join(' ');
-
-      onScoreLoaded(noteString);
-      setSuccess(`Loaded ${score.title || 'Score'} with ${score.notes.length} notes!`);
+      applyScore(score);
       
-    } catch (err: any) {
-      setError(err.message || 'Error parsing file');
+    } catch (err: unknown) {
+      setError((err instanceof Error ? err.message : String(err)) || 'Error parsing file');
     } finally {
       setUploading(false);
       setOcrProgress('');
     }
   };
 
+  const part = pending?.parts.find(p => p.id === selection.partId) || pending?.parts[0];
+  const track = pendingMidi?.tracks.find(t => t.index === midiSelection.track) || pendingMidi?.tracks[0];
+
   return (
     <div className="bg-slate-800 rounded-xl p-6 border-2 border-dashed border-slate-600">
       <div className="text-center">
         <Upload className="w-12 h-12 mx-auto mb-4 text-slate-400" />
         <h3 className="text-lg font-bold mb-2">Upload Sheet Music</h3>
         <p className="text-sm text-slate-400 mb-4">
-          Upload MusicXML or PDF files to automatically convert Western notation to Carnatic positions
+          Upload MusicXML, MuseScore, ABC, MIDI or PDF files to automatically convert Western notation to Carnatic positions
         </p>
 
         <input
           type="file"
-          accept=".xml,.musicxml,.pdf"
+          accept=".xml,.musicxml,.mxl,.mscz,.mscx,.abc,.mid,.midi,.pdf"
           onChange={handleFileUpload}
           disabled={uploading}
           className="hidden"
@@ -311,10 +586,135 @@ export const SheetMusicUpload = ({ onScoreLoaded }: { onScoreLoaded: (notes: str
         </label>
 
         <div className="mt-4 text-xs text-slate-500">
-          Supported: .xml, .musicxml, .pdf (with OCR)
+          Supported: .xml, .musicxml, .mxl, .mscz, .abc, .mid, .pdf (with OCR)
         </div>
+
+        <label className="mt-3 flex items-center justify-center gap-2 text-xs text-slate-400">
+          PDF pages
+          <input
+            type="text"
+            value={pageRange}
+            onChange={(e) => setPageRange(e.target.value)}
+            placeholder="All, or e.g. 1-3, 5"
+            disabled={uploading}
+            className="w-36 bg-slate-800 text-white px-2 py-1 rounded border border-slate-700"
+          />
+        </label>
       </div>
 
+      {pending && part && (
+        <div className="mt-4 p-4 bg-slate-900 rounded-lg text-sm space-y-3">
+          <div className="font-semibold">Choose what to convert</div>
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={part.id}
+              onChange={(e) => setSelection({ ...selection, partId: e.target.value, voice: undefined, staff: undefined })}
+              className="bg-slate-800 text-white p-2 rounded-lg border border-slate-700"
+            >
+              {pending.parts.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            {part.staves > 1 && (
+              <select
+                value={selection.staff || ''}
+                onChange={(e) => setSelection({ ...selection, staff: e.target.value || undefined })}
+                className="bg-slate-800 text-white p-2 rounded-lg border border-slate-700"
+              >
+                <option value="">Any staff</option>
+                {Array.from({ length: part.staves }, (_, i) => (
+                  <option key={i} value={String(i + 1)}>Staff {i + 1}</option>
+                ))}
+              </select>
+            )}
+            {part.voices.length > 1 && (
+              <select
+                value={selection.voice || ''}
+                onChange={(e) => setSelection({ ...selection, voice: e.target.value || undefined })}
+                className="bg-slate-800 text-white p-2 rounded-lg border border-slate-700"
+              >
+                <option value="">First voice</option>
+                {part.voices.map((voice) => (
+                  <option key={voice} value={voice}>Voice {voice}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          {pending.parts.length > 1 && (
+            <label className="flex items-center gap-2 text-slate-300">
+              <input
+                type="checkbox"
+                checked={!!selection.accompaniment}
+                onChange={(e) => setSelection({ ...selection, accompaniment: e.target.checked })}
+                className="rounded"
+              />
+              Keep other parts as accompaniment
+            </label>
+          )}
+          <button
+            onClick={convertSelection}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold"
+          >
+            Convert
+          </button>
+        </div>
+      )}
+
+      {pendingMidi && track && (
+        <div className="mt-4 p-4 bg-slate-900 rounded-lg text-sm space-y-3">
+          <div className="font-semibold">Choose what to convert</div>
+          <div className="flex flex-wrap gap-2">
+            <select
+              value={track.index}
+              onChange={(e) => setMidiSelection({ ...midiSelection, track: parseInt(e.target.value), channel: undefined })}
+              className="bg-slate-800 text-white p-2 rounded-lg border border-slate-700"
+            >
+              {pendingMidi.tracks.map((t) => (
+                <option key={t.index} value={t.index}>{t.name} ({t.noteCount} notes)</option>
+              ))}
+            </select>
+            {track.channels.length > 1 && (
+              <select
+                value={midiSelection.channel ?? ''}
+                onChange={(e) => setMidiSelection({ ...midiSelection, channel: e.target.value ? parseInt(e.target.value) : undefined })}
+                className="bg-slate-800 text-white p-2 rounded-lg border border-slate-700"
+              >
+                <option value="">All channels</option>
+                {track.channels.map((channel) => (
+                  <option key={channel} value={channel}>Channel {channel}</option>
+                ))}
+              </select>
+            )}
+            <select
+              value={midiSelection.grid ?? 0.25}
+              onChange={(e) => setMidiSelection({ ...midiSelection, grid: parseFloat(e.target.value) })}
+              className="bg-slate-800 text-white p-2 rounded-lg border border-slate-700"
+            >
+              <option value={1}>Quantize to quarters</option>
+              <option value={0.5}>Quantize to eighths</option>
+              <option value={0.25}>Quantize to sixteenths</option>
+              <option value={1 / 3}>Quantize to eighth triplets</option>
+              <option value={0}>No quantizing</option>
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-slate-300">
+            <input
+              type="checkbox"
+              checked={!!midiSelection.accompaniment}
+              onChange={(e) => setMidiSelection({ ...midiSelection, accompaniment: e.target.checked })}
+              className="rounded"
+            />
+            Keep other tracks as accompaniment
+          </label>
+          <button
+            onClick={convertSelection}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold"
+          >
+            Convert
+          </button>
+        </div>
+      )}
+
       {ocrProgress && (
         <div className="mt-4 p-3 bg-blue-500/10 border border-blue-500 text-blue-400 rounded-lg text-sm flex items-center gap-2">
           <div className="animate-spin rounded-full h-4 w-4 border-2 border-blue-500 border-t-transparent"></div>
@@ -322,6 +722,13 @@ export const SheetMusicUpload = ({ onScoreLoaded }: { onScoreLoaded: (notes: str
         </div>
       )}
 
+      {ocrWarning && (
+        <div className="mt-4 p-3 bg-yellow-500/10 border border-yellow-500 text-yellow-400 rounded-lg text-sm flex items-start gap-2">
+          <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+          <div>{ocrWarning}</div>
+        </div>
+      )}
+
       {error && (
         <div className="mt-4 p-3 bg-red-500/10 border border-red-500 text-red-400 rounded-lg text-sm flex items-start gap-2">
           <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
@@ -339,9 +746,9 @@ export const SheetMusicUpload = ({ onScoreLoaded }: { onScoreLoaded: (notes: str
       <div className="mt-6 pt-6 border-t border-slate-700">
         <h4 className="text-sm font-semibold mb-3">Tips for best results:</h4>
         <ul className="text-xs text-slate-400 space-y-2">
-          <li>• <strong>MusicXML (recommended):</strong> Most accurate, from <a href="https://musescore.com" target="_blank" className="text-blue-400 hover:underline">MuseScore.com</a></li>
+          <li>• <strong>MusicXML or MuseScore (recommended):</strong> Most accurate; .mxl and .mscz downloads work as they are, from <a href="https://musescore.com" target="_blank" className="text-blue-400 hover:underline">MuseScore.com</a></li>
           <li>• <strong>PDF with OCR:</strong> Works best with clear, high-resolution sheet music</li>
-          <li>• <strong>PDF requirements:</strong> Standard notation on treble clef, not handwritten</li>
+          <li>• <strong>PDF requirements:</strong> Standard notation on treble, alto, tenor or bass clef, not handwritten; key signatures and sharps, flats and naturals are read</li>
           <li>• Create with <a href="https://musescore.org" target="_blank" className="text-blue-400 hover:underline">MuseScore app</a> (free)</li>
         </ul>
       </div>
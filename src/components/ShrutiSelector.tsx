@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Volume2 } from 'lucide-react';
+import { useAppStore, selectSwaraNames } from '@/lib/store';
+import { getViolinSynth } from '@/lib/audio-synth';
+import { SHRUTI_OPTIONS, getShrutiOption, saMidiFromPitchClass } from '@/lib/shruti';
+import { INTONATION_SYSTEMS, IntonationSystem, centsDeviation, formatCents } from '@/lib/intonation';
+
+export const ShrutiSelector = () => {
+  const { saMidi, setSaMidi, intonation, setIntonation, ragaId } = useAppStore();
+  const swaraNames = useAppStore(selectSwaraNames);
+  const current = getShrutiOption(saMidi);
+
+  // Keep the synth's reference tonic in sync with the store
+  useEffect(() => {
+    getViolinSynth().setSa(saMidi);
+  }, [saMidi]);
+
+  useEffect(() => {
+    getViolinSynth().setIntonation(intonation, ragaId);
+  }, [intonation, ragaId]);
+
+  const playSa = async () => {
+    const synth = getViolinSynth();
+    await synth.resume();
+    synth.playSa(1.5);
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4">
+      <h3 className="text-lg font-bold mb-2">Shruti (Sa)</h3>
+      <p className="text-xs text-slate-400 mb-4">
+        All swara names are calculated from this tonic
+      </p>
+
+      <select
+        value={current.pitchClass}
+        onChange={(e) => setSaMidi(saMidiFromPitchClass(parseInt(e.target.value)))}
+        className="w-full bg-slate-900 text-white p-3 rounded-lg border border-slate-700 mb-2"
+      >
+        {SHRUTI_OPTIONS.map((option) => (
+          <option key={option.pitchClass} value={option.pitchClass}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      <button
+        onClick={playSa}
+        className="w-full px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg font-semibold flex items-center justify-center gap-2"
+      >
+        <Volume2 size={18} />
+        Play Sa ({current.western}{Math.floor(saMidi / 12) - 1})
+      </button>
+
+      <label className="block text-sm font-semibold mt-4 mb-2">Intonation</label>
+      <select
+        value={intonation}
+        onChange={(e) => setIntonation(e.target.value as IntonationSystem)}
+        className="w-full bg-slate-900 text-white p-3 rounded-lg border border-slate-700"
+      >
+        {INTONATION_SYSTEMS.map((system) => (
+          <option key={system.id} value={system.id}>
+            {system.name}
+          </option>
+        ))}
+      </select>
+
+      {intonation !== 'equal' && (
+        <div className="grid grid-cols-4 gap-1 mt-2 text-center">
+          {swaraNames.map((name, semitone) => (
+            <div key={semitone} className="bg-slate-900 rounded px-1 py-1">
+              <div className="text-xs font-semibold">{name}</div>
+              <div className="text-xs text-slate-400">
+                {formatCents(centsDeviation(saMidi + semitone, saMidi, intonation, ragaId))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
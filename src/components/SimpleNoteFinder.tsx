@@ -1,92 +1,27 @@
 'use client';
 
 import { useState } from 'react';
-
-// CORRECT: D = Sa (tonic)
-const COLORS = {
-  G: '#8b5cf6', // Purple - Low Ma1
-  D: '#ef4444', // Red - Sa (tonic)
-  A: '#3b82f6', // Blue - Pa
-  E: '#f59e0b', // Amber - High Ri2.
-};
-
-const NOTES = {
-  'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3, 'E': 4, 'E#': 5, 'F': 5,
-  'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8, 'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11,
-};
-
-const POSITIONS = {
-  G: [
-    { s: 0, n: 'Low Ma1', f: 0 },
-    { s: 1, n: 'Low Dha1', f: 1 },
-    { s: 2, n: 'Low Dha2', f: 1 },
-    { s: 3, n: 'Low Ni2', f: 2 },
-    { s: 4, n: 'Low Ni3', f: 2 },
-    { s: 5, n: 'Low Sa', f: 3 },
-  ],
-  D: [
-    { s: 0, n: 'Sa', f: 0 },
-    { s: 1, n: 'Ri1', f: 1 },
-    { s: 2, n: 'Ri2', f: 1 },
-    { s: 3, n: 'Ga2', f: 2 },
-    { s: 4, n: 'Ga3', f: 2 },
-    { s: 5, n: 'Ma1', f: 3 },
-    { s: 6, n: 'Ma2', f: 4 },
-  ],
-  A: [
-    { s: 0, n: 'Pa', f: 0 },
-    { s: 1, n: 'Dha1', f: 1 },
-    { s: 2, n: 'Dha2', f: 1 },
-    { s: 3, n: 'Ni2', f: 2 },
-    { s: 4, n: 'Ni3', f: 2 },
-    { s: 5, n: 'High Sa.', f: 3 },
-  ],
-  E: [
-    { s: 0, n: 'High Ri2.', f: 0 },
-    { s: 1, n: 'High Ga2.', f: 1 },
-    { s: 2, n: 'High Ga3.', f: 1 },
-    { s: 3, n: 'High Ma1.', f: 2 },
-    { s: 4, n: 'High Ma2.', f: 2 },
-    { s: 5, n: 'High Pa.', f: 3 },
-  ],
-};
-
-const STRING_MIDI = {
-  E: 64, // E4
-  A: 57, // A3
-  D: 50, // D3 - Sa
-  G: 43, // G2
-};
+import { shallow } from 'zustand/shallow';
+import { useAppStore, selectTuning, selectSwaraNames, selectInstrument } from '@/lib/store';
+import { swaraName } from '@/lib/shruti';
+import { PITCH_CLASSES, NoteLocation, findLocations, formatHandPosition, normalizePitch, playableMidis } from '@/lib/instrument';
 
 export const SimpleNoteFinder = () => {
   const [search, setSearch] = useState('');
-  const [result, setResult] = useState<any[]>([]);
+  const [result, setResult] = useState<NoteLocation[]>([]);
+  const saMidi = useAppStore((state) => state.saMidi);
+  const tuning = useAppStore(selectTuning, shallow);
+  const swaraNames = useAppStore(selectSwaraNames);
+  const instrument = useAppStore(selectInstrument);
 
   const find = () => {
-    const note = search.trim().toUpperCase();
-    if (!NOTES[note as keyof typeof NOTES]) {
+    const note = normalizePitch(search);
+    if (!note) {
       setResult([]);
       return;
     }
-    
-    const found = [];
-    for (let oct = 2; oct <= 6; oct++) {
-      const midi = (oct + 1) * 12 + NOTES[note as keyof typeof NOTES];
-      
-      for (const [str, base] of Object.entries(STRING_MIDI)) {
-        const offset = midi - base;
-        const pos = POSITIONS[str as keyof typeof POSITIONS].find(p => p.s === offset);
-        
-        if (pos) {
-          found.push({
-            string: str,
-            notation: pos.n,
-            finger: pos.f,
-            octave: oct,
-          });
-        }
-      }
-    }
+
+    const found = playableMidis(PITCH_CLASSES[note], tuning, instrument).flatMap(midi => findLocations(midi, tuning, instrument));
     setResult(found);
   };
 
@@ -121,22 +56,23 @@ export const SimpleNoteFinder = () => {
             key={i}
             className="p-3 rounded-lg border-l-4"
             style={{
-              backgroundColor: `${COLORS[r.string as keyof typeof COLORS]}20`,
-              borderColor: COLORS[r.string as keyof typeof COLORS],
+              backgroundColor: `${instrument.colors[r.string]}20`,
+              borderColor: instrument.colors[r.string],
             }}
           >
             <div className="flex justify-between items-start mb-1">
-              <span className="font-bold text-sm" style={{ color: COLORS[r.string as keyof typeof COLORS] }}>
+              <span className="font-bold text-sm" style={{ color: instrument.colors[r.string] }}>
                 {r.string} String
               </span>
-              <span className="text-xs text-slate-400">Oct {r.octave}</span>
+              <span className="text-xs text-slate-400">Oct {Math.floor(r.midi / 12) - 1}</span>
             </div>
-            <div className="text-xl font-black" style={{ color: COLORS[r.string as keyof typeof COLORS] }}>
-              {r.notation}
+            <div className="text-xl font-black" style={{ color: instrument.colors[r.string] }}>
+              {swaraName(r.midi, saMidi, swaraNames)}
             </div>
             <div className="text-xs text-slate-400 mt-1">
               Finger: {r.finger === 0 ? 'Open' : r.finger} 
               {r.finger === 1 || r.finger === 2 ? ' (low/high)' : ''}
+              {r.finger !== 0 && ` · ${formatHandPosition(r.handPosition)}`}
             </div>
           </div>
         ))}
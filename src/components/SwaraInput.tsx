@@ -0,0 +1,106 @@
+'use client';
+
+import { useState } from 'react';
+import { Music, Download, CheckCircle, AlertCircle } from 'lucide-react';
+import { useAppStore } from '@/lib/store';
+import { SwaraParser } from '@/lib/swara-parser';
+import { MusicXMLExporter } from '@/lib/musicxml-export';
+import { downloadFile } from '@/lib/download';
+import { ParsedScore } from '@/types';
+
+export const SwaraInput = ({ onScoreLoaded }: { onScoreLoaded?: (notes: string) => void }) => {
+  const [text, setText] = useState('S R G M | P D | N Ṡ ||');
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+  const { saMidi, ragaId, talaId, customTalas, loadScore, setMetadata, setRagaId, setTalaId } = useAppStore();
+
+  const parse = (): ParsedScore | null => {
+    try {
+      const score = SwaraParser.parse(text, { saMidi, ragaId, talaId, customTalas });
+      if (score.notes.length === 0) throw new Error('No swaras found');
+      setError('');
+      return score;
+    } catch (err: unknown) {
+      setError((err instanceof Error ? err.message : String(err)) || 'Error parsing swaras');
+      setSuccess('');
+      return null;
+    }
+  };
+
+  const handleLoad = () => {
+    const score = parse();
+    if (!score) return;
+
+    // Raga and tala named in the header apply when none is chosen
+    if (score.raga && score.raga !== ragaId) setRagaId(score.raga);
+    if (score.tala && score.tala !== talaId) setTalaId(score.tala);
+
+    loadScore(score.notes, score.writtenNotes, score.accompaniment);
+    setMetadata({
+      title: score.title,
+      composer: score.composer,
+      tempo: score.tempo,
+      timeSignature: score.timeSignature,
+      raga: score.raga,
+      tala: score.tala,
+    });
+    onScoreLoaded?.(SwaraParser.toNoteString(score.notes));
+    setSuccess(`Loaded ${score.notes.length} notes`);
+  };
+
+  const handleExport = () => {
+    const score = parse();
+    if (!score) return;
+
+    downloadFile(MusicXMLExporter.toMusicXML(score), 'application/vnd.recordare.musicxml+xml', MusicXMLExporter.fileName(score));
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4">
+      <h3 className="text-lg font-bold mb-2">Swara Input</h3>
+      <p className="text-xs text-slate-400 mb-4">
+        Carnatic notation using the Sa, raga and tala selected in the sidebar. One beat per
+        space-separated group; Ṡ / S&apos; tara, P̣ / P. mandra, commas for karvai, (2) (3) for speed
+      </p>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="S , R , G , M , | P , D , | N , Ṡ , ||"
+        className="w-full bg-slate-900 text-white p-3 rounded-lg border border-slate-700 font-mono"
+        rows={4}
+      />
+
+      <div className="flex gap-2 mt-2">
+        <button
+          onClick={handleLoad}
+          className="px-6 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold flex items-center gap-2"
+        >
+          <Music size={18} />
+          Load Swaras
+        </button>
+        <button
+          onClick={handleExport}
+          className="px-6 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg font-semibold flex items-center gap-2"
+        >
+          <Download size={18} />
+          MusicXML
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-500/10 border border-red-500 text-red-400 rounded-lg text-sm flex items-start gap-2">
+          <AlertCircle size={16} className="mt-0.5 flex-shrink-0" />
+          <div>{error}</div>
+        </div>
+      )}
+
+      {success && (
+        <div className="mt-4 p-3 bg-green-500/10 border border-green-500 text-green-400 rounded-lg text-sm flex items-center gap-2">
+          <CheckCircle size={16} />
+          {success}
+        </div>
+      )}
+    </div>
+  );
+};
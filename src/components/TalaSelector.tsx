@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useAppStore, selectTala } from '@/lib/store';
+import { COMMON_TALAS, SULADI_TALAS, formatTala, parseTalaAngas, talaBeats } from '@/lib/talas';
+
+const ANGA_LABELS = {
+  laghu: 'Laghu',
+  drutam: 'Drutam',
+  anudrutam: 'Anudrutam',
+  chapu: 'Chapu',
+};
+
+export const TalaSelector = () => {
+  const { talaId, customTalas, setTalaId, addCustomTala, removeCustomTala } = useAppStore();
+  const tala = useAppStore(selectTala);
+
+  const [editing, setEditing] = useState(false);
+  const [customName, setCustomName] = useState('');
+  const [customAngas, setCustomAngas] = useState('I4 O O');
+  const [error, setError] = useState('');
+
+  const saveCustomTala = () => {
+    try {
+      const angas = parseTalaAngas(customAngas);
+      addCustomTala({
+        id: `custom-${Date.now()}`,
+        name: customName.trim() || customAngas.trim().toUpperCase(),
+        angas,
+        custom: true,
+      });
+      setError('');
+      setEditing(false);
+    } catch (e) {
+      setError('Use I<n> for laghu, O for drutam, U for anudrutam, C<n> for chapu');
+    }
+  };
+
+  const isCustom = customTalas.some(t => t.id === talaId);
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4">
+      <h3 className="text-lg font-bold mb-2">Tala</h3>
+      <p className="text-xs text-slate-400 mb-4">
+        Groups notes into avartanams (cycles) and angas (sections)
+      </p>
+
+      <div className="flex gap-2 mb-3">
+        <select
+          value={talaId || ''}
+          onChange={(e) => setTalaId(e.target.value || undefined)}
+          className="flex-1 bg-slate-900 text-white p-3 rounded-lg border border-slate-700"
+        >
+          <option value="">From time signature</option>
+          <optgroup label="Common talas">
+            {COMMON_TALAS.map((t) => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </optgroup>
+          <optgroup label="Suladi talas">
+            {SULADI_TALAS.map((t) => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </optgroup>
+          {customTalas.length > 0 && (
+            <optgroup label="Custom talas">
+              {customTalas.map((t) => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        {isCustom && (
+          <button
+            onClick={() => removeCustomTala(tala.id)}
+            className="px-3 bg-slate-700 hover:bg-red-600 rounded-lg"
+            title="Delete custom tala"
+          >
+            <Trash2 size={18} />
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3 text-center">
+        {tala.angas.map((anga, i) => (
+          <div key={i} className="bg-slate-900 rounded-lg px-3 py-2">
+            <div className="text-xs text-slate-400">{ANGA_LABELS[anga.type]}</div>
+            <div className="font-bold">{anga.beats}</div>
+          </div>
+        ))}
+      </div>
+      <div className="text-xs text-slate-300 font-mono mb-3">
+        {formatTala(tala)} · {talaBeats(tala)} aksharas
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={customName}
+            onChange={(e) => setCustomName(e.target.value)}
+            placeholder="Tala name"
+            className="w-full bg-slate-900 text-white p-2 rounded-lg border border-slate-700"
+          />
+          <input
+            type="text"
+            value={customAngas}
+            onChange={(e) => setCustomAngas(e.target.value)}
+            className="w-full bg-slate-900 text-white p-2 rounded-lg border border-slate-700 font-mono"
+          />
+          {error && <div className="text-xs text-red-400">{error}</div>}
+          <div className="flex gap-2">
+            <button
+              onClick={saveCustomTala}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setEditing(false)}
+              className="flex-1 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg font-semibold"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setEditing(true)}
+          className="w-full px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg font-semibold flex items-center justify-center gap-2"
+        >
+          <Plus size={18} />
+          Custom Tala
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+'use client';
+
+import { useCallback, useMemo, useState } from 'react';
+import { ArrowUpDown } from 'lucide-react';
+import { shallow } from 'zustand/shallow';
+import { useAppStore, selectTuning, selectInstrument } from '@/lib/store';
+import { CarnaticConverter } from '@/lib/carnatic-converter-correct';
+import { noteToMidi } from '@/lib/instrument';
+import { INTERVALS, KEYS, Transposer } from '@/lib/transpose';
+import { WesternNote } from '@/types';
+
+type TransposeMode = 'semitones' | 'interval' | 'key';
+
+export const TransposePanel = ({
+  notes,
+  onApply,
+}: {
+  notes: WesternNote[];
+  onApply: (transpose: (notes: WesternNote[]) => WesternNote[]) => void; // Applied to every part and order of the score
+}) => {
+  const [mode, setMode] = useState<TransposeMode>('semitones');
+  const [semitones, setSemitones] = useState(0);
+  const [intervalIndex, setIntervalIndex] = useState(4);
+  const [direction, setDirection] = useState<1 | -1>(1);
+  const [fromKey, setFromKey] = useState('C');
+  const [toKey, setToKey] = useState('D');
+  const tuning = useAppStore(selectTuning, shallow);
+  const instrument = useAppStore(selectInstrument);
+
+  const transpose = useCallback((notes: WesternNote[]) => {
+    const score = { notes };
+    if (mode === 'semitones') return Transposer.bySemitones(score, semitones).notes;
+    if (mode === 'interval') return Transposer.byInterval(score, INTERVALS[intervalIndex], direction).notes;
+    return Transposer.toKey(score, fromKey, toKey).notes;
+  }, [mode, semitones, intervalIndex, direction, fromKey, toKey]);
+  const transposed = useMemo(() => transpose(notes), [notes, transpose]);
+
+  // Live preview against the current instrument's range
+  const preview = useMemo(() => {
+    const range = CarnaticConverter.playableRange(tuning, instrument);
+    const playable = (note: WesternNote) => {
+      const midi = noteToMidi(note.pitch, note.octave);
+      return midi >= range.lowest && midi <= range.highest;
+    };
+    let before = 0;
+    let after = 0;
+    let gained = 0;
+    let lost = 0;
+    notes.forEach((note, i) => {
+      if (note.rest) return;
+      const was = playable(note);
+      const is = playable(transposed[i]);
+      if (was) before++;
+      if (is) after++;
+      if (is && !was) gained++;
+      if (was && !is) lost++;
+    });
+    return { before, after, gained, lost, pitched: notes.filter(n => !n.rest).length };
+  }, [notes, transposed, tuning, instrument]);
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4">
+      <h3 className="text-lg font-bold mb-2">Transpose</h3>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as TransposeMode)}
+          className="bg-slate-900 text-white p-2 rounded-lg border border-slate-700"
+        >
+          <option value="semitones">By semitones</option>
+          <option value="interval">By interval</option>
+          <option value="key">To key</option>
+        </select>
+
+        {mode === 'semitones' && (
+          <input
+            type="number"
+            min={-24}
+            max={24}
+            value={semitones}
+            onChange={(e) => setSemitones(parseInt(e.target.value) || 0)}
+            className="w-24 bg-slate-900 text-white p-2 rounded-lg border border-slate-700"
+          />
+        )}
+
+        {mode === 'interval' && (
+          <>
+            <select
+              value={direction}
+              onChange={(e) => setDirection(parseInt(e.target.value) as 1 | -1)}
+              className="bg-slate-900 text-white p-2 rounded-lg border border-slate-700"
+            >
+              <option value={1}>Up</option>
+              <option value={-1}>Down</option>
+            </select>
+            <select
+              value={intervalIndex}
+              onChange={(e) => setIntervalIndex(parseInt(e.target.value))}
+              className="bg-slate-900 text-white p-2 rounded-lg border border-slate-700"
+            >
+              {INTERVALS.map((interval, i) => (
+                <option key={interval.short} value={i}>
+                  {interval.name} ({interval.short})
+                </option>
+              ))}
+            </select>
+          </>
+        )}
+
+        {mode === 'key' && (
+          <>
+            <select
+              value={fromKey}
+              onChange={(e) => setFromKey(e.target.value)}
+              className="bg-slate-900 text-white p-2 rounded-lg border border-slate-700"
+            >
+              {KEYS.map((key) => (
+                <option key={key} value={key}>From {key}</option>
+              ))}
+            </select>
+            <select
+              value={toKey}
+              onChange={(e) => setToKey(e.target.value)}
+              className="bg-slate-900 text-white p-2 rounded-lg border border-slate-700"
+            >
+              {KEYS.map((key) => (
+                <option key={key} value={key}>To {key}</option>
+              ))}
+            </select>
+          </>
+        )}
+
+        <button
+          onClick={() => onApply(transpose)}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold flex items-center gap-2"
+        >
+          <ArrowUpDown size={18} />
+          Apply
+        </button>
+      </div>
+
+      <div className="text-sm text-slate-300">
+        Playable on {instrument.name.toLowerCase()}: <span className="font-bold">{preview.after}/{preview.pitched}</span>
+        {preview.after !== preview.before && (
+          <span className={preview.after > preview.before ? 'text-green-400' : 'text-red-400'}>
+            {' '}({preview.after > preview.before ? '+' : ''}{preview.after - preview.before})
+          </span>
+        )}
+        {(preview.gained > 0 || preview.lost > 0) && (
+          <span className="text-slate-400">
+            {' '}· {preview.gained} become playable, {preview.lost} become unplayable
+          </span>
+        )}
+      </div>
+      <div className="text-xs text-slate-500 mt-1 font-mono truncate">
+        {transposed.slice(0, 12).map(n => n.rest ? 'z' : `${n.pitch}${n.octave}`).join(' ')}
+        {transposed.length > 12 && ' …'}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { shallow } from 'zustand/shallow';
+import { useAppStore, selectTuning, selectSwaraNames, selectInstrument } from '@/lib/store';
+import { swaraName } from '@/lib/shruti';
+import {
+  StringTuning,
+  midiToNoteName,
+  noteToMidi,
+  parseNoteString,
+  tuningsFor,
+} from '@/lib/instrument';
+
+export const TuningSelector = () => {
+  const {
+    saMidi,
+    tuningId,
+    customTunings,
+    setTuningId,
+    addCustomTuning,
+    removeCustomTuning,
+  } = useAppStore();
+  const tuning = useAppStore(selectTuning, shallow);
+  const swaraNames = useAppStore(selectSwaraNames);
+  const instrument = useAppStore(selectInstrument);
+
+  const [editing, setEditing] = useState(false);
+  const [customName, setCustomName] = useState('');
+  const [customStrings, setCustomStrings] = useState<Record<string, string>>({});
+  const [error, setError] = useState('');
+
+  // Start from the current open strings
+  const startEditing = () => {
+    const strings: Record<string, string> = {};
+    for (const string of instrument.strings) {
+      strings[string] = midiToNoteName(tuning[string]);
+    }
+    setCustomStrings(strings);
+    setEditing(true);
+  };
+
+  const saveCustomTuning = () => {
+    try {
+      const strings: StringTuning = {};
+      for (const string of instrument.strings) {
+        const note = parseNoteString(customStrings[string].trim());
+        strings[string] = noteToMidi(note.pitch, note.octave);
+      }
+
+      addCustomTuning({
+        id: `custom-${Date.now()}`,
+        name: customName.trim() || instrument.strings.map(s => customStrings[s].trim()).join('-'),
+        instrument: instrument.id,
+        relativeToSa: false,
+        strings,
+        custom: true,
+      });
+      setError('');
+      setEditing(false);
+    } catch (e) {
+      setError('Use note names with octaves, e.g. A2 D3 A3 D4');
+    }
+  };
+
+  const isCustom = customTunings.some(t => t.id === tuningId);
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4">
+      <h3 className="text-lg font-bold mb-2">Tuning</h3>
+      <p className="text-xs text-slate-400 mb-4">
+        Open strings used for string and finger assignment
+      </p>
+
+      <div className="flex gap-2 mb-3">
+        <select
+          value={tuningId}
+          onChange={(e) => setTuningId(e.target.value)}
+          className="flex-1 bg-slate-900 text-white p-3 rounded-lg border border-slate-700"
+        >
+          {tuningsFor(instrument.id, customTunings).map((profile) => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        {isCustom && (
+          <button
+            onClick={() => removeCustomTuning(tuningId)}
+            className="px-3 bg-slate-700 hover:bg-red-600 rounded-lg"
+            title="Delete custom tuning"
+          >
+            <Trash2 size={18} />
+          </button>
+        )}
+      </div>
+
+      <div className="grid gap-2 mb-3 text-center" style={{ gridTemplateColumns: `repeat(${instrument.strings.length}, minmax(0, 1fr))` }}>
+        {instrument.strings.map((string) => (
+          <div key={string} className="bg-slate-900 rounded-lg p-2">
+            <div className="text-xs text-slate-400">{string}</div>
+            <div className="font-bold">{midiToNoteName(tuning[string])}</div>
+            <div className="text-xs text-slate-300">{swaraName(tuning[string], saMidi, swaraNames)}</div>
+          </div>
+        ))}
+      </div>
+
+      {editing ? (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={customName}
+            onChange={(e) => setCustomName(e.target.value)}
+            placeholder="Tuning name"
+            className="w-full bg-slate-900 text-white p-2 rounded-lg border border-slate-700"
+          />
+          <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${instrument.strings.length}, minmax(0, 1fr))` }}>
+            {instrument.strings.map((string) => (
+              <input
+                key={string}
+                type="text"
+                value={customStrings[string] ?? ''}
+                onChange={(e) => setCustomStrings({ ...customStrings, [string]: e.target.value })}
+                className="w-full bg-slate-900 text-white p-2 rounded-lg border border-slate-700 font-mono text-center"
+              />
+            ))}
+          </div>
+          {error && <div className="text-xs text-red-400">{error}</div>}
+          <div className="flex gap-2">
+            <button
+              onClick={saveCustomTuning}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-lg font-semibold"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => setEditing(false)}
+              className="flex-1 px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg font-semibold"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={startEditing}
+          className="w-full px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg font-semibold flex items-center justify-center gap-2"
+        >
+          <Plus size={18} />
+          Custom Tuning
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,422 @@
+/**
+ * ABC 2.1 notation parser (the subset used for melodies)
+ *
+ * Supported:
+ * - Header fields T (title), C (composer), M (meter), L (unit note length), Q (tempo), K (key and mode)
+ * - K:, L:, M: and Q: changes in the body, on their own line or inline as [K:...]
+ * - Notes with ^ ^^ _ __ = accidentals (held to the end of the bar), ' and , octave marks,
+ *   length multipliers and dividers (A2, A/2, A/, A3/2), broken rhythm (A>B, A<B, A>>B)
+ * - Rests z and x, whole-bar rests Z, ties (A-A), tuplets (3abc and (p:q:r
+ * - Bar lines, repeats |: :| ::, and first/second endings |1 :|2 [1 [2
+ * - Jumps: !D.C.! !D.S.! (also al Fine/al Coda), !fine!, !segno! or S, !coda! or O
+ *   (the first coda sign is "To Coda", the next one starts the coda)
+ *
+ * Chords are reduced to their first note; grace notes, slurs, decorations,
+ * chord symbols and annotations are skipped. Only the first tune (X:) and voice (V:) are read.
+ * Durations are in beats (quarter note = 1); notes are in playback order, with the
+ * written order kept alongside when repeats change it.
+ */
+
+import { ParsedScore, WesternNote } from '@/types';
+import { noteToMidi, spellPitch } from './instrument';
+import { Measure, unrollMeasures } from './repeats';
+
+interface Meter {
+  beats: number;
+  beatType: number;
+}
+
+interface ParseState {
+  unit?: number; // Beats per unit note length (L:), set once the body starts
+  meter?: Meter;
+  keyAlters: Record<string, number>; // Key signature alteration by letter
+  barAlters: Record<string, number>; // Accidentals written earlier in the bar, by letter and octave
+  measures: Measure[];
+  measure: Measure;
+  endings?: number[]; // Endings continuing into the next measure
+  lastNote?: WesternNote;
+  tiePending: boolean;
+  nextFactor: number; // Length factor owed by broken rhythm
+  tuplet?: { factor: number; remaining: number };
+  tempo?: number;
+  voice?: string; // First voice named by V:, the only one read
+  inVoice: boolean;
+  codaSigns: number;
+}
+
+const FIELD_PATTERN = /^([A-Za-z]):(?![|:])\s*(.*)$/;
+const INLINE_FIELD_PATTERN = /^\[([A-Za-z]):([^\]]*)\]/;
+const NOTE_PATTERN = /^(\^\^|\^|__|_|=)?([A-Ga-g])([',]*)(\d*)(\/*)(\d*)/;
+const REST_PATTERN = /^([zx])(\d*)(\/*)(\d*)/;
+const BAR_PATTERN = /^(:*)(\[\||\|\]|\|\||\|)(:*)(?:\s*\[?(\d+(?:[,-]\d+)*))?/;
+const ENDING_PATTERN = /^\[(\d+(?:[,-]\d+)*)/;
+const TUPLET_PATTERN = /^\((\d)(?::(\d*))?(?::(\d*))?/;
+// Spacing, slurs, line breaks, voice overlay and one-character decorations (.~HLMPTuv)
+const SKIPPED_PATTERN = /^[\s()`y$&\\.~HLMPTuv]/;
+const DECORATION_PATTERN = /^(?:!([^!]*)!|\+([^+]*)\+|([SO]))/;
+
+// Position of each letter on the circle of fifths (C = 0)
+const LETTER_FIFTHS: Record<string, number> = { F: -1, C: 0, G: 1, D: 2, A: 3, E: 4, B: 5 };
+const SHARP_ORDER = 'FCGDAEB';
+
+// Key signature of each mode relative to the major key on the same tonic
+const MODE_FIFTHS: Record<string, number> = {
+  '': 0, maj: 0, ion: 0, dor: -2, phr: -4, lyd: 1, mix: -1, aeo: -3, min: -3, m: -3, loc: -5,
+};
+
+const ACCIDENTAL_ALTERS: Record<string, number> = { '^^': 2, '^': 1, '=': 0, '_': -1, '__': -2 };
+
+export class ABCParser {
+  /**
+   * Parse the first tune in an ABC file into a score
+   * Throws on symbols that are not part of the notation
+   */
+  static parse(text: string): ParsedScore {
+    const score: ParsedScore = { notes: [] };
+    const state: ParseState = {
+      keyAlters: {},
+      barAlters: {},
+      measures: [],
+      measure: { notes: [] },
+      tiePending: false,
+      nextFactor: 1,
+      inVoice: true,
+      codaSigns: 0,
+    };
+    let unitField: number | undefined;
+    let tuneStarted = false;
+
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line = rawLine.replace(/%.*$/, '').replace(/\\\s*$/, '').trim();
+      if (!line) continue;
+
+      const field = line.match(FIELD_PATTERN);
+      if (field) {
+        const [, name, value] = field;
+        if (name === 'X') {
+          if (tuneStarted) break;
+          tuneStarted = true;
+        } else if (name === 'T' && state.unit === undefined) {
+          score.title = score.title ?? (value.trim() || undefined);
+        } else if (name === 'C') {
+          score.composer = score.composer ?? (value.trim() || undefined);
+        } else if (name === 'L' && state.unit === undefined) {
+          unitField = this.parseFraction(value) * 4;
+        } else {
+          this.applyField(name, value, state);
+        }
+        continue;
+      }
+
+      if (!state.inVoice) continue;
+      tuneStarted = true;
+      // Without L:, the unit is a sixteenth in meters under 3/4 and an eighth otherwise
+      if (state.unit === undefined) {
+        state.unit = unitField ?? (state.meter && state.meter.beats / state.meter.beatType < 0.75 ? 0.25 : 0.5);
+      }
+      this.parseBody(line, state);
+    }
+
+    this.closeMeasure(state);
+
+    score.tempo = state.tempo;
+    if (state.meter) score.timeSignature = state.meter;
+    const round = (note: WesternNote) => ({ ...note, duration: Math.round(note.duration * 1e6) / 1e6 });
+    score.notes = unrollMeasures(state.measures).map(round);
+    const written = state.measures.flatMap(measure => measure.notes);
+    if (written.length !== score.notes.length) score.writtenNotes = written.map(round);
+    return score;
+  }
+
+  /**
+   * Apply a header or body field that changes how notes are read
+   */
+  private static applyField(name: string, value: string, state: ParseState): void {
+    switch (name) {
+      case 'K':
+        state.keyAlters = this.keySignature(value);
+        break;
+      case 'L':
+        state.unit = this.parseFraction(value) * 4;
+        break;
+      case 'M':
+        state.meter = this.parseMeter(value);
+        break;
+      case 'Q':
+        state.tempo = this.parseTempo(value, state.unit ?? 0.5) ?? state.tempo;
+        break;
+      case 'V': {
+        // Notes of other voices are skipped
+        const id = value.trim().split(/\s+/)[0];
+        state.voice = state.voice ?? id;
+        state.inVoice = id === state.voice;
+        break;
+      }
+    }
+  }
+
+  /**
+   * Read one line of music
+   */
+  private static parseBody(line: string, state: ParseState): void {
+    let rest = line;
+    while (rest.length > 0) {
+      let match: RegExpMatchArray | null;
+
+      if ((match = rest.match(INLINE_FIELD_PATTERN))) {
+        this.applyField(match[1], match[2], state);
+        if (!state.inVoice) return;
+      } else if ((match = rest.match(NOTE_PATTERN))) {
+        this.addNote(match, 1, state);
+      } else if ((match = rest.match(REST_PATTERN))) {
+        const length = this.noteLength(match[2], match[3], match[4]);
+        this.push({ pitch: '', octave: 0, duration: 0, rest: true }, length, state);
+      } else if ((match = rest.match(/^Z(\d*)/))) {
+        const meter = state.meter ?? { beats: 4, beatType: 4 };
+        const bars = match[1] ? parseInt(match[1]) : 1;
+        const beats = bars * meter.beats * 4 / meter.beatType;
+        this.push({ pitch: '', octave: 0, duration: 0, rest: true }, beats / state.unit!, state);
+      } else if ((match = rest.match(/^::/))) {
+        this.bar(':', '|', ':', undefined, state);
+      } else if ((match = rest.match(BAR_PATTERN))) {
+        this.bar(match[1], match[2], match[3], match[4], state);
+      } else if ((match = rest.match(ENDING_PATTERN))) {
+        this.startEnding(match[1], state);
+      } else if ((match = rest.match(/^\[([^\]]*)\]([\d/]*)/))) {
+        // Chord: the first note, with the chord's length applied on top
+        const first = match[1].replace(/^[^A-Ga-g^_=]+/, '').match(NOTE_PATTERN);
+        if (first) {
+          const outer = match[2].match(/^(\d*)(\/*)(\d*)$/)!;
+          this.addNote(first, this.noteLength(outer[1], outer[2], outer[3]), state);
+        }
+      } else if ((match = rest.match(TUPLET_PATTERN))) {
+        this.startTuplet(match, state);
+      } else if ((match = rest.match(/^(>+|<+)/))) {
+        this.brokenRhythm(match[1], state);
+      } else if ((match = rest.match(/^-/))) {
+        state.tiePending = state.lastNote !== undefined;
+      } else if ((match = rest.match(DECORATION_PATTERN))) {
+        this.decoration(match[1] ?? match[2] ?? (match[3] === 'S' ? 'segno' : 'coda'), state);
+      } else if ((match = rest.match(/^(\{[^}]*\}|"[^"]*")/))) {
+        // Grace notes, chord symbols and annotations
+      } else if ((match = rest.match(SKIPPED_PATTERN))) {
+        // Nothing to read
+      } else {
+        throw new Error(`Unrecognised ABC symbol "${rest[0]}" in "${line}"`);
+      }
+
+      rest = rest.slice(match[0].length);
+    }
+  }
+
+  /**
+   * Add a note from a NOTE_PATTERN match, applying key, bar accidentals and ties
+   */
+  private static addNote(match: RegExpMatchArray, multiplier: number, state: ParseState): void {
+    const [, accidental, letter, marks, num, slashes, den] = match;
+    const upper = letter.toUpperCase();
+    let octave = letter === upper ? 4 : 5;
+    for (const mark of marks) octave += mark === "'" ? 1 : -1;
+
+    const barKey = `${upper}${octave}`;
+    let alter: number;
+    const last = state.lastNote;
+    if (accidental) {
+      alter = ACCIDENTAL_ALTERS[accidental];
+      state.barAlters[barKey] = alter;
+    } else if (state.tiePending && last && !last.rest && last.pitch[0] === upper && last.octave === octave) {
+      // A note tied across the bar keeps its accidental
+      alter = noteToMidi(last.pitch, octave) - noteToMidi(upper, octave);
+    } else {
+      alter = state.barAlters[barKey] ?? state.keyAlters[upper] ?? 0;
+    }
+
+    const note: WesternNote = { pitch: spellPitch(upper, alter), octave, duration: 0 };
+    this.push(note, this.noteLength(num, slashes, den) * multiplier, state);
+  }
+
+  /**
+   * Add a note or rest of `length` units, merging it into the previous note when tied
+   */
+  private static push(note: WesternNote, length: number, state: ParseState): void {
+    let factor = state.nextFactor;
+    state.nextFactor = 1;
+    if (state.tuplet) {
+      factor *= state.tuplet.factor;
+      if (--state.tuplet.remaining === 0) state.tuplet = undefined;
+    }
+    const duration = length * state.unit! * factor;
+
+    const last = state.lastNote;
+    const tied = state.tiePending && last && !last.rest && !note.rest &&
+      noteToMidi(last.pitch, last.octave) === noteToMidi(note.pitch, note.octave);
+    state.tiePending = false;
+
+    if (tied) {
+      last!.duration += duration;
+      return;
+    }
+    note.duration = duration;
+    state.measure.notes.push(note);
+    state.lastNote = note;
+  }
+
+  /**
+   * Bar line: close the measure, marking repeats and the endings of the next one
+   */
+  private static bar(before: string, bar: string, after: string, ending: string | undefined, state: ParseState): void {
+    const repeatEnd = before.length > 0;
+    if (repeatEnd) {
+      // A repeat sign straight after another bar line belongs to the measure before it
+      const target = state.measure.notes.length > 0 ? state.measure : state.measures[state.measures.length - 1];
+      if (target) target.repeatEnd = true;
+    }
+    this.closeMeasure(state);
+
+    const repeatStart = after.length > 0;
+    if (repeatEnd || repeatStart || bar === '||' || bar === '|]' || bar === '[|') {
+      state.endings = undefined;
+    }
+    if (repeatStart) state.measure.repeatStart = true;
+    if (ending) {
+      this.startEnding(ending, state);
+    } else {
+      state.measure.endings = state.endings;
+    }
+  }
+
+  /**
+   * Mark the current measure, and those after it up to the next repeat or double bar, as endings
+   */
+  private static startEnding(list: string, state: ParseState): void {
+    const passes: number[] = [];
+    for (const part of list.split(',')) {
+      const [from, to] = part.split('-').map(n => parseInt(n));
+      for (let pass = from; pass <= (to ?? from); pass++) passes.push(pass);
+    }
+    state.endings = passes;
+    state.measure.endings = passes;
+  }
+
+  /**
+   * Record a jump decoration on the current measure; other decorations are ignored
+   */
+  private static decoration(name: string, state: ParseState): void {
+    const measure = state.measure;
+    const jump = name.toLowerCase().replace(/[.\s]/g, '');
+
+    if (jump.startsWith('dc') || jump === 'dacapo') measure.daCapo = true;
+    else if (jump.startsWith('ds') || jump === 'dalsegno') measure.dalSegno = true;
+    else if (jump === 'fine') measure.fine = true;
+    else if (jump === 'segno') measure.segno = true;
+    else if (jump === 'dacoda') {
+      measure.toCoda = true;
+      state.codaSigns++;
+    } else if (jump === 'coda') {
+      if (state.codaSigns++ === 0) measure.toCoda = true;
+      else measure.coda = true;
+    }
+  }
+
+  /**
+   * Store the current measure if it has notes and start a new one
+   * (an empty measure is kept, so marks written before it still apply)
+   */
+  private static closeMeasure(state: ParseState): void {
+    if (state.measure.notes.length > 0) {
+      state.measures.push(state.measure);
+      state.measure = { notes: [] };
+    }
+    state.barAlters = {};
+  }
+
+  /**
+   * (p:q:r puts p notes into the time of q for the next r notes
+   */
+  private static startTuplet(match: RegExpMatchArray, state: ParseState): void {
+    const p = parseInt(match[1]);
+    const compound = !!state.meter && state.meter.beats % 3 === 0 && state.meter.beats > 3;
+    const defaultQ: Record<number, number> = { 2: 3, 3: 2, 4: 3, 6: 2, 8: 3 };
+    const q = match[2] ? parseInt(match[2]) : defaultQ[p] ?? (compound ? 3 : 2);
+    const r = match[3] ? parseInt(match[3]) : p;
+    state.tuplet = { factor: q / p, remaining: r };
+  }
+
+  /**
+   * > lengthens the previous note and shortens the next by the same amount; < the reverse
+   */
+  private static brokenRhythm(symbols: string, state: ParseState): void {
+    const last = state.lastNote;
+    if (!last) return;
+    const shift = 1 - 1 / 2 ** symbols.length; // 1/2 for >, 3/4 for >>, 7/8 for >>>
+    const lengthen = symbols[0] === '>';
+    last.duration *= lengthen ? 1 + shift : 1 - shift;
+    state.nextFactor = lengthen ? 1 - shift : 1 + shift;
+  }
+
+  /**
+   * Length in units from a multiplier and divider, e.g. ("3", "/", "2") -> 1.5, ("", "//", "") -> 0.25
+   */
+  private static noteLength(num: string, slashes: string, den: string): number {
+    const multiplier = num ? parseInt(num) : 1;
+    if (!slashes) return multiplier;
+    const divider = den ? parseInt(den) : 2 ** slashes.length;
+    return multiplier / divider;
+  }
+
+  /**
+   * Alteration of each letter in a K: field such as "D", "Ador", "F#m", "Bb mixolydian" or "none"
+   */
+  static keySignature(value: string): Record<string, number> {
+    const match = value.trim().match(/^([A-G])([#b]?)\s*([A-Za-z]*)/);
+    if (!match) return {};
+
+    const [, tonic, accidental, modeName] = match;
+    const mode = modeName.toLowerCase() === 'm' ? 'm' : modeName.toLowerCase().slice(0, 3);
+    const fifths = LETTER_FIFTHS[tonic] + (accidental === '#' ? 7 : accidental === 'b' ? -7 : 0) +
+      (MODE_FIFTHS[mode] ?? 0);
+
+    const alters: Record<string, number> = {};
+    const count = Math.min(Math.abs(fifths), 7);
+    const order = fifths > 0 ? SHARP_ORDER : [...SHARP_ORDER].reverse().join('');
+    for (let i = 0; i < count; i++) alters[order[i]] = fifths > 0 ? 1 : -1;
+    return alters;
+  }
+
+  /**
+   * M: field: "6/8", "(2+3)/8", "C" (4/4), "C|" (2/2); "none" gives no meter
+   */
+  private static parseMeter(value: string): Meter | undefined {
+    const text = value.trim();
+    if (text === 'C') return { beats: 4, beatType: 4 };
+    if (text === 'C|') return { beats: 2, beatType: 2 };
+
+    const match = text.match(/^\(?([\d+]+)\)?\s*\/\s*(\d+)/);
+    if (!match) return undefined;
+    const beats = match[1].split('+').reduce((sum, n) => sum + (parseInt(n) || 0), 0);
+    return { beats, beatType: parseInt(match[2]) };
+  }
+
+  /**
+   * Q: field as quarter notes per minute: "1/4=120", "3/8=60", "\"Allegro\" 1/2=80",
+   * or a bare number of unit notes per minute
+   */
+  private static parseTempo(value: string, unit: number): number | undefined {
+    const text = value.replace(/"[^"]*"/g, '').trim();
+    const match = text.match(/^((?:\d+\/\d+\s*)+)=\s*(\d+)/);
+    if (match) {
+      const beat = match[1].trim().split(/\s+/).reduce((sum, f) => sum + this.parseFraction(f) * 4, 0);
+      return Math.round(parseInt(match[2]) * beat * 100) / 100;
+    }
+    const bare = text.match(/^(\d+)$/);
+    return bare ? Math.round(parseInt(bare[1]) * unit * 100) / 100 : undefined;
+  }
+
+  /**
+   * Fraction such as "1/8" as a number (defaults to 1/8)
+   */
+  private static parseFraction(value: string): number {
+    const match = value.trim().match(/^(\d+)\s*\/\s*(\d+)/);
+    return match ? parseInt(match[1]) / parseInt(match[2]) : 1 / 8;
+  }
+}
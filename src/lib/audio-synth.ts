@@ -1,10 +1,19 @@
 /**
  * Enhanced audio synthesis for realistic violin sounds
+ * The voice follows the selected instrument's timbre (bowed violin, viola and cello, plucked mandolin)
  */
 
+import { DEFAULT_SA_MIDI } from './shruti';
+import { SynthTimbre, VIOLIN, noteToMidi } from './instrument';
+import { IntonationSystem, noteFrequency } from './intonation';
+
 export class ViolinSynth {
   private audioContext: AudioContext | null = null;
   private masterGain: GainNode | null = null;
+  private saMidi: number = DEFAULT_SA_MIDI;
+  private intonation: IntonationSystem = 'equal';
+  private ragaId?: string;
+  private timbre: SynthTimbre = VIOLIN.timbre;
   private activeNotes: Map<string, {
     oscillators: OscillatorNode[];
     gains: GainNode[];
@@ -21,14 +30,15 @@ export class ViolinSynth {
   }
 
   /**
-   * Play a note with proper duration (for held notes)
+   * Play a note with proper duration (for held notes); volume 0-1 relative to the melody
    */
-  playNote(midiNote: number, duration: number = 0.5): void {
+  playNote(midiNote: number, duration: number = 0.5, volume: number = 1): void {
     if (!this.audioContext || !this.masterGain) return;
 
     const ctx = this.audioContext;
+    const timbre = this.timbre;
     const now = ctx.currentTime;
-    const frequency = 440 * Math.pow(2, (midiNote - 69) / 12);
+    const frequency = noteFrequency(midiNote, this.saMidi, this.intonation, this.ragaId);
     const noteKey = `${midiNote}-${now}`;
 
     // Create multiple oscillators for rich violin timbre
@@ -38,8 +48,8 @@ export class ViolinSynth {
     const harmonic4 = ctx.createOscillator();
     const subHarmonic = ctx.createOscillator();
 
-    // Violin uses sawtooth with specific harmonics
-    fundamental.type = 'sawtooth';
+    // Bowed strings use sawtooth with specific harmonics
+    fundamental.type = timbre.waveform;
     fundamental.frequency.value = frequency;
     
     harmonic2.type = 'sine';
@@ -62,31 +72,37 @@ export class ViolinSynth {
     const subGain = ctx.createGain();
 
     fundGain.gain.value = 0.6;
-    harm2Gain.gain.value = 0.3;
-    harm3Gain.gain.value = 0.15;
-    harm4Gain.gain.value = 0.08;
-    subGain.gain.value = 0.1;
+    harm2Gain.gain.value = timbre.harmonics[0];
+    harm3Gain.gain.value = timbre.harmonics[1];
+    harm4Gain.gain.value = timbre.harmonics[2];
+    subGain.gain.value = timbre.subHarmonic;
 
     // ADSR Envelope for realistic violin attack/sustain/release
     const envelope = ctx.createGain();
     envelope.gain.setValueAtTime(0, now);
     
-    // Attack (bow touching string)
-    envelope.gain.linearRampToValueAtTime(0.3, now + 0.02);
-    envelope.gain.linearRampToValueAtTime(0.8, now + 0.08);
-    
-    // Sustain
-    envelope.gain.setValueAtTime(0.8, now + 0.08);
-    envelope.gain.linearRampToValueAtTime(0.7, now + duration - 0.1);
-    
-    // Release (bow lifting)
-    envelope.gain.exponentialRampToValueAtTime(0.01, now + duration);
+    if (timbre.plucked) {
+      // Pluck, then decay for the rest of the note
+      envelope.gain.linearRampToValueAtTime(0.9 * volume, now + timbre.attack);
+      envelope.gain.exponentialRampToValueAtTime(0.01, now + duration);
+    } else {
+      // Attack (bow touching string)
+      envelope.gain.linearRampToValueAtTime(0.3 * volume, now + timbre.attack / 4);
+      envelope.gain.linearRampToValueAtTime(0.8 * volume, now + timbre.attack);
+
+      // Sustain
+      envelope.gain.setValueAtTime(0.8 * volume, now + timbre.attack);
+      envelope.gain.linearRampToValueAtTime(0.7 * volume, now + duration - 0.1);
+
+      // Release (bow lifting)
+      envelope.gain.exponentialRampToValueAtTime(0.01, now + duration);
+    }
 
     // Add vibrato (violin characteristic)
     const vibrato = ctx.createOscillator();
     const vibratoGain = ctx.createGain();
     vibrato.frequency.value = 5.5; // 5.5 Hz vibrato
-    vibratoGain.gain.value = 8; // Depth of vibrato
+    vibratoGain.gain.value = timbre.vibrato; // Depth of vibrato
     
     vibrato.connect(vibratoGain);
     vibratoGain.connect(fundamental.frequency);
@@ -110,7 +126,7 @@ export class ViolinSynth {
 
     const filter2 = ctx.createBiquadFilter();
     filter2.type = 'lowpass';
-    filter2.frequency.value = 3000 + frequency;
+    filter2.frequency.value = timbre.brightness + frequency;
     filter2.Q.value = 0.7;
 
     // Connect audio graph
@@ -166,18 +182,49 @@ export class ViolinSynth {
    * Play note from Western notation
    */
   playWesternNote(pitch: string, octave: number, duration: number = 0.5): void {
-    const NOTE_TO_MIDI: Record<string, number> = {
-      'C': 0, 'C#': 1, 'Db': 1, 'D': 2, 'D#': 3, 'Eb': 3, 'E': 4, 'E#': 5, 'F': 5,
-      'F#': 6, 'Gb': 6, 'G': 7, 'G#': 8, 'Ab': 8, 'A': 9, 'A#': 10, 'Bb': 10, 'B': 11,
-    };
-
-    const baseNote = NOTE_TO_MIDI[pitch];
-    if (baseNote !== undefined) {
-      const midiNote = (octave + 1) * 12 + baseNote;
-      this.playNote(midiNote, duration);
+    try {
+      this.playNote(noteToMidi(pitch, octave), duration);
+    } catch {
+      // Unknown pitch names are skipped
     }
   }
 
+  /**
+   * Set the tonic (Sa) used for reference playback
+   */
+  setSa(saMidi: number): void {
+    this.saMidi = saMidi;
+  }
+
+  /**
+   * Set the intonation system, and the raga whose shrutis the 22-shruti system uses
+   */
+  setIntonation(intonation: IntonationSystem, ragaId?: string): void {
+    this.intonation = intonation;
+    this.ragaId = ragaId;
+  }
+
+  /**
+   * Set the instrument voice
+   */
+  setTimbre(timbre: SynthTimbre): void {
+    this.timbre = timbre;
+  }
+
+  /**
+   * Currently configured Sa as a MIDI number
+   */
+  getSa(): number {
+    return this.saMidi;
+  }
+
+  /**
+   * Play the configured Sa as a tuning reference
+   */
+  playSa(duration: number = 2): void {
+    this.playNote(this.saMidi, duration);
+  }
+
   /**
    * Stop all playing notes
    */
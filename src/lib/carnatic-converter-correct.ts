@@ -1,202 +1,261 @@
 /**
- * CORRECT Carnatic violin mapping for Western standard tuning (G-D-A-E)
- * D string = Middle Sa (tonic reference)
+ * CORRECT Carnatic mapping for any instrument and tuning profile, first to seventh position
+ * Defaults to the violin in Western standard tuning (G-D-A-E) with Sa on the D string (D3)
  */
 
-export interface CarnaticPosition {
-  string: 'G' | 'D' | 'A' | 'E';
-  position: string; // e.g., "Low Ma1", "Ri1", "High Pa."
-  fingerPosition: number; // 0=open, 1-4=fingers
-  variant?: 'low' | 'high'; // For fingers with low/high positions
-}
+import { DEFAULT_SA_MIDI, swaraName } from './shruti';
+import { CarnaticPosition, WesternNote } from '@/types';
+import {
+  InstrumentProfile,
+  PITCH_CLASSES,
+  StringTuning,
+  VIOLIN,
+  findLocations,
+  findTuning,
+  midiToNoteName,
+  normalizePitch,
+  noteToMidi,
+  parseNoteString,
+  playableMidis,
+  playableRange,
+  resolveTuning,
+} from './instrument';
+import { FingeringOptimizer, FingeringPin, FingeringWeights } from './fingering-optimizer';
+import { ragaSwaraNames } from './ragas';
 
-export interface WesternNote {
-  pitch: string;
-  octave: number;
-  duration?: number;
-}
+export type { CarnaticPosition, WesternNote };
 
-// Western standard tuning MIDI values
-const STRING_TUNINGS = {
-  E: 64, // E4 = High Ri2.
-  A: 57, // A3 = Middle Pa
-  D: 50, // D3 = Middle Sa (TONIC)
-  G: 43, // G2 = Low Ma1
-};
-
-// Note to MIDI conversion
-const NOTE_TO_MIDI: Record<string, number> = {
-  'C': 0, 'C#': 1, 'Db': 1,
-  'D': 2, 'D#': 3, 'Eb': 3,
-  'E': 4, 'E#': 5, 'Fb': 4,
-  'F': 5, 'F#': 6, 'Gb': 6,
-  'G': 7, 'G#': 8, 'Ab': 8,
-  'A': 9, 'A#': 10, 'Bb': 10,
-  'B': 11, 'B#': 0, 'Cb': 11,
-};
+export interface ConversionOptions {
+  saMidi?: number; // Sa as a MIDI number (default D3)
+  instrument?: InstrumentProfile; // Strings and fingerboard (default violin)
+  tuning?: StringTuning; // Open-string MIDI numbers (default the instrument's standard tuning)
+  ragaId?: string; // Raga used to name enharmonic swaras (default chromatic names)
+  weights?: FingeringWeights; // Cost weights for whole-score fingering
+  pins?: Record<number, FingeringPin>; // User-fixed choices by note index
+  rangeMode?: RangeMode; // How to handle notes outside the playable range (default 'marker')
+}
 
 /**
- * String position mappings based on your description
- * Each position is semitones from open string
+ * Out-of-range handling:
+ * - marker: keep the note with an "unplayable" marker
+ * - fold: move each out-of-range note by octaves into range
+ * - transpose: move the whole score by the octave shift that fits the most notes
  */
-const STRING_POSITIONS = {
-  // G string (Low Ma1) - 4th string
-  G: [
-    { semitones: 0, notation: 'Low Ma1', finger: 0 },
-    { semitones: 1, notation: 'Low Dha1', finger: 1, variant: 'low' },
-    { semitones: 2, notation: 'Low Dha2', finger: 1, variant: 'high' },
-    { semitones: 3, notation: 'Low Ni2', finger: 2, variant: 'low' },
-    { semitones: 4, notation: 'Low Ni3', finger: 2, variant: 'high' },
-    { semitones: 5, notation: 'Low Sa', finger: 3 },
-  ],
-  
-  // D string (Middle Sa - TONIC) - 3rd string
-  D: [
-    { semitones: 0, notation: 'Sa', finger: 0 },
-    { semitones: 1, notation: 'Ri1', finger: 1, variant: 'low' },
-    { semitones: 2, notation: 'Ri2', finger: 1, variant: 'high' },
-    { semitones: 3, notation: 'Ga2', finger: 2, variant: 'low' },
-    { semitones: 4, notation: 'Ga3', finger: 2, variant: 'high' },
-    { semitones: 5, notation: 'Ma1', finger: 3 },
-    { semitones: 6, notation: 'Ma2', finger: 4 },
-  ],
-  
-  // A string (Middle Pa) - 2nd string
-  A: [
-    { semitones: 0, notation: 'Pa', finger: 0 },
-    { semitones: 1, notation: 'Dha1', finger: 1, variant: 'low' },
-    { semitones: 2, notation: 'Dha2', finger: 1, variant: 'high' },
-    { semitones: 3, notation: 'Ni2', finger: 2, variant: 'low' },
-    { semitones: 4, notation: 'Ni3', finger: 2, variant: 'high' },
-    { semitones: 5, notation: 'High Sa.', finger: 3 },
-  ],
-  
-  // E string (High Ri2.) - 1st string
-  E: [
-    { semitones: 0, notation: 'High Ri2.', finger: 0 },
-    { semitones: 1, notation: 'High Ga2.', finger: 1, variant: 'low' },
-    { semitones: 2, notation: 'High Ga3.', finger: 1, variant: 'high' },
-    { semitones: 3, notation: 'High Ma1.', finger: 2, variant: 'low' },
-    { semitones: 4, notation: 'High Ma2.', finger: 2, variant: 'high' },
-    { semitones: 5, notation: 'High Pa.', finger: 3 },
-  ],
-};
+export type RangeMode = 'marker' | 'fold' | 'transpose';
+
+export interface ConversionIssue {
+  index: number; // Position of the note in the score
+  note: string; // Written note, e.g. "C2"
+  reason: string;
+  resolution?: string; // Set when the note was folded into range
+}
+
+export interface ConversionResult {
+  positions: (CarnaticPosition | null)[];
+  issues: ConversionIssue[];
+  octaveShift: number; // Whole-score shift applied in 'transpose' mode
+}
 
 export class CarnaticConverter {
   /**
    * Convert Western note to MIDI number
    */
-  private static noteToMidi(pitch: string, octave: number): number {
-    const noteName = pitch.replace(/[0-9]/g, '');
-    const baseNote = NOTE_TO_MIDI[noteName];
-    if (baseNote === undefined) {
-      throw new Error(`Invalid note: ${pitch}`);
-    }
-    return (octave + 1) * 12 + baseNote;
+  static noteToMidi(pitch: string, octave: number): number {
+    return noteToMidi(pitch, octave);
   }
 
   /**
-   * Find best Carnatic position for a Western note
+   * All string/position/finger choices for a MIDI note
    */
-  static convertNote(westernNote: WesternNote): CarnaticPosition | null {
+  static candidatePositions(midiNote: number, options: ConversionOptions = {}): CarnaticPosition[] {
+    const { saMidi, tuning, instrument } = this.resolveOptions(options);
+    const names = ragaSwaraNames(options.ragaId);
+    return findLocations(midiNote, tuning, instrument).map(location => ({
+      string: location.string,
+      position: swaraName(midiNote, saMidi, names),
+      fingerPosition: location.finger,
+      handPosition: location.handPosition,
+      variant: location.variant,
+    }));
+  }
+
+  /**
+   * Find best Carnatic position for a single Western note, without phrase context
+   */
+  static convertNote(westernNote: WesternNote, options: ConversionOptions = {}): CarnaticPosition | null {
     const midiNote = this.noteToMidi(westernNote.pitch, westernNote.octave);
-    
-    // Try each string
-    const strings: Array<keyof typeof STRING_TUNINGS> = ['E', 'A', 'D', 'G'];
+    const { instrument } = this.resolveOptions(options);
     let bestMatch: CarnaticPosition | null = null;
-    
-    for (const string of strings) {
-      const openStringMidi = STRING_TUNINGS[string];
-      const semitonesFromOpen = midiNote - openStringMidi;
-      
-      // Check if this position exists on this string
-      const positions = STRING_POSITIONS[string];
-      const match = positions.find(p => p.semitones === semitonesFromOpen);
-      
-      if (match) {
-        // Prefer positions on lower strings (easier to reach)
-        // and prefer positions with lower finger numbers
-        if (!bestMatch || 
-            strings.indexOf(string) > strings.indexOf(bestMatch.string) ||
-            (string === bestMatch.string && match.finger < bestMatch.fingerPosition)) {
-          bestMatch = {
-            string,
-            position: match.notation,
-            fingerPosition: match.finger,
-            variant: match.variant,
-          };
-        }
+
+    for (const candidate of this.candidatePositions(midiNote, options)) {
+      // Prefer the lowest hand position, then open strings,
+      // then lower strings (easier to reach), then lower finger numbers
+      if (!bestMatch || this.comparePositions(candidate, bestMatch, instrument) < 0) {
+        bestMatch = candidate;
       }
     }
-    
+
     return bestMatch;
   }
 
+  /**
+   * Ordering used to pick one position per note
+   */
+  private static comparePositions(a: CarnaticPosition, b: CarnaticPosition, instrument: InstrumentProfile): number {
+    const handA = Math.max(a.handPosition, 1);
+    const handB = Math.max(b.handPosition, 1);
+    if (handA !== handB) return handA - handB;
+    if ((a.fingerPosition === 0) !== (b.fingerPosition === 0)) return a.fingerPosition === 0 ? -1 : 1;
+    if (a.string !== b.string) return instrument.strings.indexOf(a.string) - instrument.strings.indexOf(b.string);
+    return a.fingerPosition - b.fingerPosition;
+  }
+
   /**
    * Parse simple note string like "C4" or "D#5"
    */
   static parseNoteString(noteStr: string): WesternNote {
-    const match = noteStr.match(/^([A-G][#b]?)(\d+)$/);
-    if (!match) {
-      throw new Error(`Invalid note string: ${noteStr}`);
-    }
-
-    return {
-      pitch: match[1],
-      octave: parseInt(match[2]),
-      duration: 1,
-    };
+    return parseNoteString(noteStr);
   }
 
   /**
    * Parse note without octave - returns all possible positions
    */
-  static findAllPositions(noteName: string): CarnaticPosition[] {
-    const note = noteName.toUpperCase();
-    const baseNoteMidi = NOTE_TO_MIDI[note];
-    
-    if (baseNoteMidi === undefined) {
+  static findAllPositions(noteName: string, options: ConversionOptions = {}): CarnaticPosition[] {
+    const pitch = normalizePitch(noteName);
+    if (!pitch) {
       throw new Error(`Invalid note: ${noteName}`);
     }
 
-    const positions: CarnaticPosition[] = [];
-    
-    // Search across practical octaves (2-6)
-    for (let octave = 2; octave <= 6; octave++) {
-      const midiNote = (octave + 1) * 12 + baseNoteMidi;
-      
-      const strings: Array<keyof typeof STRING_TUNINGS> = ['E', 'A', 'D', 'G'];
-      for (const string of strings) {
-        const openStringMidi = STRING_TUNINGS[string];
-        const semitonesFromOpen = midiNote - openStringMidi;
-        
-        const stringPositions = STRING_POSITIONS[string];
-        const match = stringPositions.find(p => p.semitones === semitonesFromOpen);
-        
-        if (match) {
-          positions.push({
-            string,
-            position: match.notation,
-            fingerPosition: match.finger,
-            variant: match.variant,
-          });
-        }
+    const { tuning, instrument } = this.resolveOptions(options);
+    return playableMidis(PITCH_CLASSES[pitch], tuning, instrument)
+      .flatMap(midiNote => this.candidatePositions(midiNote, options));
+  }
+
+  /**
+   * Convert an array of Western notes relative to the chosen Sa and tuning,
+   * choosing fingerings for the whole sequence and marking every shift
+   */
+  static convertScore(notes: WesternNote[], options: ConversionOptions = {}): (CarnaticPosition | null)[] {
+    return this.convertScoreWithReport(notes, options).positions;
+  }
+
+  /**
+   * Convert a score and report every note that does not fit the instrument,
+   * folding or transposing it according to `rangeMode`
+   */
+  static convertScoreWithReport(notes: WesternNote[], options: ConversionOptions = {}): ConversionResult {
+    const { tuning, instrument } = this.resolveOptions(options);
+    const mode = options.rangeMode ?? 'marker';
+    const range = this.playableRange(tuning, instrument);
+    const inRange = (midi: number) => midi >= range.lowest && midi <= range.highest;
+    // Rests have no pitch; they keep their index with a null position and no issue
+    const midis = notes.map(note => note.rest ? NaN : this.noteToMidi(note.pitch, note.octave));
+
+    const scoreShift = mode === 'transpose' ? this.bestOctaveShift(midis.filter(m => !isNaN(m)), range) : 0;
+    const issues: ConversionIssue[] = [];
+
+    // Octave shift applied to each note, or null if it cannot be played
+    const noteShifts = midis.map((midi, index) => {
+      if (isNaN(midi)) return null;
+      const shifted = midi + scoreShift * 12;
+      if (inRange(shifted)) return scoreShift;
+
+      const issue: ConversionIssue = {
+        index,
+        note: `${notes[index].pitch}${notes[index].octave}`,
+        reason: shifted < range.lowest
+          ? `Below the lowest open string (${midiToNoteName(range.lowest)})`
+          : `Above the highest reachable note (${midiToNoteName(range.highest)})`,
+      };
+      issues.push(issue);
+
+      if (mode !== 'fold') return null;
+
+      const fold = shifted < range.lowest
+        ? Math.ceil((range.lowest - shifted) / 12)
+        : -Math.ceil((shifted - range.highest) / 12);
+      if (!inRange(shifted + fold * 12)) return null;
+
+      const octaves = Math.abs(fold);
+      issue.resolution = `Folded ${fold > 0 ? 'up' : 'down'} ${octaves} octave${octaves > 1 ? 's' : ''}`;
+      return scoreShift + fold;
+    });
+
+    const candidates = noteShifts.map((shift, index) =>
+      shift === null ? [] : this.candidatePositions(midis[index] + shift * 12, options)
+    );
+    const positions = this.annotateShifts(FingeringOptimizer.optimize(candidates, options.weights, options.pins, instrument))
+      .map((position, index) => {
+        const shift = noteShifts[index];
+        return position && shift ? { ...position, octaveShift: shift } : position;
+      });
+
+    return { positions, issues, octaveShift: scoreShift };
+  }
+
+  /**
+   * Lowest open string and highest stopped note for a tuning
+   */
+  static playableRange(tuning: StringTuning, instrument: InstrumentProfile = VIOLIN): { lowest: number; highest: number } {
+    return playableRange(tuning, instrument);
+  }
+
+  /**
+   * Whole-octave shift (-3 to +3) that leaves the fewest notes out of range,
+   * preferring the smallest shift on ties
+   */
+  private static bestOctaveShift(midis: number[], range: { lowest: number; highest: number }): number {
+    let best = 0;
+    let bestPlayable = -1;
+
+    for (const shift of [0, -1, 1, -2, 2, -3, 3]) {
+      const playable = midis.filter(m => m + shift * 12 >= range.lowest && m + shift * 12 <= range.highest).length;
+      if (playable > bestPlayable) {
+        best = shift;
+        bestPlayable = playable;
       }
     }
-    
-    return positions;
+
+    return best;
   }
 
   /**
-   * Get color for string (for UI)
+   * Add shift markers where the hand position changes; open strings keep the hand where it is
    */
-  static getStringColor(string: string): string {
-    const colors: Record<string, string> = {
-      G: '#8b5cf6', // Purple (lowest)
-      D: '#ef4444', // Red (Sa)
-      A: '#3b82f6', // Blue (Pa)
-      E: '#f59e0b', // Amber (highest)
+  static annotateShifts(positions: (CarnaticPosition | null)[]): (CarnaticPosition | null)[] {
+    let currentHand = 1;
+
+    return positions.map(position => {
+      if (!position || position.handPosition === 0) return position;
+
+      const { shift, ...rest } = position;
+      const annotated: CarnaticPosition = position.handPosition !== currentHand
+        ? { ...rest, shift: { from: currentHand, to: position.handPosition } }
+        : rest;
+      currentHand = position.handPosition;
+      return annotated;
+    });
+  }
+
+  /**
+   * Fill in default Sa, instrument and tuning
+   */
+  private static resolveOptions(
+    options: ConversionOptions
+  ): { saMidi: number; tuning: StringTuning; instrument: InstrumentProfile } {
+    const saMidi = options.saMidi ?? DEFAULT_SA_MIDI;
+    const instrument = options.instrument ?? VIOLIN;
+    return {
+      saMidi,
+      instrument,
+      tuning: options.tuning ?? resolveTuning(findTuning('', [], instrument.id), saMidi),
     };
-    return colors[string] || '#999';
+  }
+
+  /**
+   * Get color for string (for UI)
+   */
+  static getStringColor(string: string, instrument: InstrumentProfile = VIOLIN): string {
+    return instrument.colors[string] || '#999';
   }
 }
\ No newline at end of file
@@ -0,0 +1,26 @@
+/**
+ * Saving exports as files in the browser
+ */
+
+import { ParsedScore } from '@/types';
+
+/**
+ * File name from the score's title, e.g. "Vatapi Ganapatim" with ".mid" -> "vatapi-ganapatim.mid"
+ */
+export function exportFileName(score: ParsedScore, suffix: string): string {
+  const base = (score.title || 'score').trim().toLowerCase().replace(/[^a-z0-9]+/g, '-');
+  return `${base.replace(/^-+|-+$/g, '') || 'score'}${suffix}`;
+}
+
+/**
+ * Offer data to the user as a downloaded file
+ */
+export function downloadFile(data: BlobPart, type: string, fileName: string): void {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,180 @@
+/**
+ * Whole-phrase fingering optimizer
+ * Chooses one string/position/finger per note by minimizing the total cost of
+ * string crossings, shifts, high positions and extensions across the phrase
+ */
+
+import type { CarnaticPosition } from './carnatic-converter-correct';
+import { InstrumentProfile, MAX_HAND_POSITION, StringName, VIOLIN } from './instrument';
+
+export interface FingeringWeights {
+  stringCrossing: number; // Per string crossed between consecutive notes
+  shift: number; // Per change of hand position
+  shiftDistance: number; // Per position travelled in a shift
+  highPosition: number; // Per position above first, for every stopped note
+  extension: number; // 4th finger stretched to the next string's open note
+  openString: number; // Per open string (raise to favour stopped notes)
+}
+
+export const DEFAULT_FINGERING_WEIGHTS: FingeringWeights = {
+  stringCrossing: 1,
+  shift: 3,
+  shiftDistance: 1,
+  highPosition: 0.5,
+  extension: 2,
+  openString: 0,
+};
+
+// User-fixed choices for a single note; unset fields are left to the optimizer
+export interface FingeringPin {
+  string?: StringName;
+  handPosition?: number;
+  finger?: number;
+}
+
+interface State {
+  candidate: CarnaticPosition;
+  hand: number; // Hand position after this note (open strings keep the previous one)
+  cost: number;
+  back: number; // Index of the best predecessor state
+}
+
+export class FingeringOptimizer {
+  /**
+   * Pick the cheapest candidate for every note; notes without candidates get null
+   * and split the score into independent phrases
+   */
+  static optimize(
+    candidates: CarnaticPosition[][],
+    weights: FingeringWeights = DEFAULT_FINGERING_WEIGHTS,
+    pins: Record<number, FingeringPin> = {},
+    instrument: InstrumentProfile = VIOLIN
+  ): (CarnaticPosition | null)[] {
+    const result: (CarnaticPosition | null)[] = new Array(candidates.length).fill(null);
+    let phraseStart = 0;
+
+    for (let i = 0; i <= candidates.length; i++) {
+      if (i === candidates.length || candidates[i].length === 0) {
+        if (i > phraseStart) {
+          const phrase = this.solvePhrase(candidates, phraseStart, i, weights, pins, instrument);
+          phrase.forEach((position, offset) => {
+            result[phraseStart + offset] = position;
+          });
+        }
+        phraseStart = i + 1;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Candidates allowed by a pin (all candidates if the pin cannot be satisfied)
+   */
+  static applyPin(candidates: CarnaticPosition[], pin?: FingeringPin): CarnaticPosition[] {
+    if (!pin) return candidates;
+
+    const pinned = candidates.filter(c =>
+      (pin.string === undefined || c.string === pin.string) &&
+      (pin.handPosition === undefined || c.handPosition === pin.handPosition) &&
+      (pin.finger === undefined || c.fingerPosition === pin.finger)
+    );
+    return pinned.length > 0 ? pinned : candidates;
+  }
+
+  /**
+   * Viterbi search over one phrase of consecutive playable notes
+   */
+  private static solvePhrase(
+    candidates: CarnaticPosition[][],
+    start: number,
+    end: number,
+    weights: FingeringWeights,
+    pins: Record<number, FingeringPin>,
+    instrument: InstrumentProfile
+  ): CarnaticPosition[] {
+    const layers: State[][] = [];
+
+    for (let i = start; i < end; i++) {
+      const layer = this.expandStates(this.applyPin(candidates[i], pins[i]));
+      const previous = layers[layers.length - 1];
+
+      for (const state of layer) {
+        const local = this.noteCost(state.candidate, weights);
+
+        if (!previous) {
+          // The phrase starts with the hand in first position
+          state.cost = local + this.shiftCost(1, state.hand, weights);
+          continue;
+        }
+
+        previous.forEach((prev, index) => {
+          // An open string cannot move the hand
+          if (state.candidate.fingerPosition === 0 && prev.hand !== state.hand) return;
+
+          const cost = prev.cost + local + this.transitionCost(prev, state, weights, instrument);
+          if (cost < state.cost) {
+            state.cost = cost;
+            state.back = index;
+          }
+        });
+      }
+
+      layers.push(layer);
+    }
+
+    // Backtrack from the cheapest final state
+    const last = layers[layers.length - 1];
+    let index = last.reduce((best, state, i) => (state.cost < last[best].cost ? i : best), 0);
+    const chosen: CarnaticPosition[] = [];
+
+    for (let layer = layers.length - 1; layer >= 0; layer--) {
+      const state = layers[layer][index];
+      chosen.unshift(state.candidate);
+      index = state.back;
+    }
+
+    return chosen;
+  }
+
+  /**
+   * One state per candidate; open strings get one state per possible hand position
+   */
+  private static expandStates(candidates: CarnaticPosition[]): State[] {
+    const states: State[] = [];
+
+    for (const candidate of candidates) {
+      if (candidate.fingerPosition === 0) {
+        for (let hand = 1; hand <= MAX_HAND_POSITION; hand++) {
+          states.push({ candidate, hand, cost: Infinity, back: -1 });
+        }
+      } else {
+        states.push({ candidate, hand: candidate.handPosition, cost: Infinity, back: -1 });
+      }
+    }
+
+    return states;
+  }
+
+  private static noteCost(candidate: CarnaticPosition, weights: FingeringWeights): number {
+    if (candidate.fingerPosition === 0) return weights.openString;
+
+    let cost = (candidate.handPosition - 1) * weights.highPosition;
+    if (candidate.fingerPosition === 4 && candidate.variant === 'high') {
+      cost += weights.extension;
+    }
+    return cost;
+  }
+
+  private static transitionCost(prev: State, next: State, weights: FingeringWeights, instrument: InstrumentProfile): number {
+    const crossing = Math.abs(
+      instrument.strings.indexOf(prev.candidate.string) - instrument.strings.indexOf(next.candidate.string)
+    );
+    return crossing * weights.stringCrossing + this.shiftCost(prev.hand, next.hand, weights);
+  }
+
+  private static shiftCost(from: number, to: number, weights: FingeringWeights): number {
+    if (from === to) return 0;
+    return weights.shift + Math.abs(to - from) * weights.shiftDistance;
+  }
+}
@@ -0,0 +1,462 @@
+/**
+ * Instrument model (violin, viola, cello, mandolin), the single source for:
+ * - pitch naming (note names <-> MIDI numbers)
+ * - instrument profiles: strings, lane colors, fingerboard and synth timbre
+ * - tuning profiles (strings keep their physical names, e.g. G D A E, whatever pitch they are tuned to)
+ * - the fingerboard, first to seventh position on every string
+ * - where on the instrument a note can be played
+ * Converters, finders and views all read the instrument through this module
+ */
+
+import { WesternNote } from '@/types';
+
+// Pitch naming
+
+// Pitch class of every spelling the app accepts
+export const PITCH_CLASSES: Record<string, number> = {
+  'C': 0, 'C#': 1, 'Db': 1,
+  'D': 2, 'D#': 3, 'Eb': 3,
+  'E': 4, 'E#': 5, 'Fb': 4,
+  'F': 5, 'F#': 6, 'Gb': 6,
+  'G': 7, 'G#': 8, 'Ab': 8,
+  'A': 9, 'A#': 10, 'Bb': 10,
+  'B': 11, 'B#': 0, 'Cb': 11,
+  // Double accidentals, produced when transposing by interval
+  'C##': 2, 'Cbb': 10, 'D##': 4, 'Dbb': 0, 'E##': 6, 'Ebb': 2, 'F##': 7,
+  'Fbb': 3, 'G##': 9, 'Gbb': 5, 'A##': 11, 'Abb': 7, 'B##': 1, 'Bbb': 9,
+};
+
+// Semitones above C of each natural note
+const LETTER_SEMITONES: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+
+const PITCH_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/**
+ * Canonical spelling of a pitch name typed in any case, e.g. "db" -> "Db", "F#" -> "F#"
+ * Returns undefined for anything that is not a note name
+ */
+export function normalizePitch(name: string): string | undefined {
+  const trimmed = name.trim();
+  if (!trimmed) return undefined;
+  const pitch = trimmed[0].toUpperCase() + trimmed.slice(1).toLowerCase();
+  return pitch in PITCH_CLASSES ? pitch : undefined;
+}
+
+/**
+ * Semitones an accidental raises the natural note, e.g. "F#" -> 1, "Bbb" -> -2
+ */
+export function accidentalAlter(pitch: string): number {
+  return Array.from(pitch.slice(1)).reduce((sum, sign) => sum + (sign === '#' ? 1 : sign === 'b' ? -1 : 0), 0);
+}
+
+/**
+ * Pitch name of a letter with an alteration in semitones, e.g. ("F", 1) -> "F#", ("B", -2) -> "Bbb"
+ * Alterations beyond a double sharp or flat are clamped
+ */
+export function spellPitch(letter: string, alter: number): string {
+  const clamped = Math.max(-2, Math.min(2, Math.round(alter)));
+  return letter + (clamped > 0 ? '#'.repeat(clamped) : 'b'.repeat(-clamped));
+}
+
+/**
+ * MIDI number of a pitch name and octave, e.g. ("D", 3) -> 50
+ * The octave belongs to the letter, so B#3 is C4 and Cb4 is B3
+ */
+export function noteToMidi(pitch: string, octave: number): number {
+  const name = pitch.replace(/[0-9]/g, '');
+  if (!(name in PITCH_CLASSES)) {
+    throw new Error(`Invalid note: ${pitch}`);
+  }
+  return (octave + 1) * 12 + LETTER_SEMITONES[name[0]] + accidentalAlter(name);
+}
+
+/**
+ * Format a MIDI number as a note name, e.g. 50 -> "D3"
+ */
+export function midiToNoteName(midi: number): string {
+  return `${PITCH_NAMES[((midi % 12) + 12) % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+/**
+ * Parse a note with octave such as "C4" or "D#5" (duration 1 beat)
+ */
+export function parseNoteString(noteStr: string): WesternNote {
+  const match = noteStr.match(/^([A-G](?:##|bb|[#b])?)(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid note string: ${noteStr}`);
+  }
+
+  return {
+    pitch: match[1],
+    octave: parseInt(match[2]),
+    duration: 1,
+  };
+}
+
+/**
+ * Parse a typed note sequence such as "C4 D#4:0.5 Ebb3:2 z:1"
+ * Letters in any case; octave defaults to 4 and duration to 1 beat; "z" is a rest.
+ * Throws on the first token that is not a note or a rest
+ */
+export function parseNoteSequence(text: string): WesternNote[] {
+  return text.trim().split(/\s+/).filter(Boolean).map(token => {
+    const invalid = () => new Error(`Invalid note "${token}": use a name with octave and optional duration, e.g. C4, F#5:0.5, or z:1 for a rest`);
+
+    const rest = token.match(/^z(?::(\d*\.?\d+))?$/i);
+    if (rest) {
+      const duration = rest[1] ? parseFloat(rest[1]) : 1;
+      if (!(duration > 0)) throw invalid();
+      return { pitch: '', octave: 0, duration, rest: true };
+    }
+
+    const note = token.match(/^([A-G](?:##|bb|[#b])?)(\d*)(?::(\d*\.?\d+))?$/i);
+    const pitch = note && normalizePitch(note[1]);
+    const duration = note?.[3] ? parseFloat(note[3]) : 1;
+    if (!note || !pitch || !(duration > 0)) throw invalid();
+    return { pitch, octave: note[2] ? parseInt(note[2]) : 4, duration };
+  });
+}
+
+// Strings and tunings
+
+// Physical string name, e.g. "G" on the violin or "C" on the cello
+export type StringName = string;
+
+// MIDI number of each open string
+export type StringTuning = Record<StringName, number>;
+
+export interface TuningProfile {
+  id: string;
+  name: string;
+  instrument: string; // Id of the instrument the tuning is for
+  // When true, `strings` holds semitone offsets from Sa instead of MIDI numbers
+  relativeToSa: boolean;
+  strings: StringTuning;
+  custom?: boolean;
+}
+
+// Standard tunings first: an instrument falls back to the first tuning listed for it
+export const BUILT_IN_TUNINGS: TuningProfile[] = [
+  {
+    id: 'western',
+    name: 'Western standard (G-D-A-E)',
+    instrument: 'violin',
+    relativeToSa: false,
+    strings: { G: 43, D: 50, A: 57, E: 64 },
+  },
+  {
+    // Mandra Pa, Sa, Pa, tara Sa from the lowest string up
+    id: 'carnatic',
+    name: 'Carnatic Sa-Pa-Sa-Pa',
+    instrument: 'violin',
+    relativeToSa: true,
+    strings: { G: -5, D: 0, A: 7, E: 12 },
+  },
+  {
+    id: 'viola-western',
+    name: 'Viola standard (C-G-D-A)',
+    instrument: 'viola',
+    relativeToSa: false,
+    strings: { C: 36, G: 43, D: 50, A: 57 },
+  },
+  {
+    id: 'viola-carnatic',
+    name: 'Carnatic Sa-Pa-Sa-Pa',
+    instrument: 'viola',
+    relativeToSa: true,
+    strings: { C: -12, G: -5, D: 0, A: 7 },
+  },
+  {
+    id: 'cello-western',
+    name: 'Cello standard (C-G-D-A)',
+    instrument: 'cello',
+    relativeToSa: false,
+    strings: { C: 24, G: 31, D: 38, A: 45 },
+  },
+  {
+    id: 'cello-carnatic',
+    name: 'Carnatic Sa-Pa-Sa-Pa',
+    instrument: 'cello',
+    relativeToSa: true,
+    strings: { C: -24, G: -17, D: -12, A: -5 },
+  },
+  {
+    id: 'mandolin-western',
+    name: 'Mandolin standard (G-D-A-E)',
+    instrument: 'mandolin',
+    relativeToSa: false,
+    strings: { G: 43, D: 50, A: 57, E: 64 },
+  },
+  {
+    id: 'mandolin-carnatic',
+    name: 'Carnatic Sa-Pa-Sa-Pa',
+    instrument: 'mandolin',
+    relativeToSa: true,
+    strings: { G: -5, D: 0, A: 7, E: 12 },
+  },
+];
+
+/**
+ * Open-string MIDI numbers for a profile with the chosen Sa
+ */
+export function resolveTuning(profile: TuningProfile, saMidi: number): StringTuning {
+  const offset = profile.relativeToSa ? saMidi : 0;
+  const tuning: StringTuning = {};
+  for (const [string, value] of Object.entries(profile.strings)) {
+    tuning[string] = value + offset;
+  }
+  return tuning;
+}
+
+/**
+ * Built-in and custom tunings for an instrument
+ */
+export function tuningsFor(instrumentId: string, customTunings: TuningProfile[] = []): TuningProfile[] {
+  return [...BUILT_IN_TUNINGS, ...customTunings].filter(t => t.instrument === instrumentId);
+}
+
+/**
+ * Look up an instrument's tuning profile by id, falling back to its standard tuning
+ */
+export function findTuning(id: string, customTunings: TuningProfile[] = [], instrumentId: string = 'violin'): TuningProfile {
+  const tunings = tuningsFor(instrumentId, customTunings);
+  return tunings.find(t => t.id === id) || tunings[0];
+}
+
+// Fingerboard
+
+export interface FingerPlacement {
+  semitones: number; // Semitones above the open string
+  handPosition: number; // 1-7, 0 = open string (no hand position needed)
+  finger: number; // 0 = open, 1-4 = fingers
+  variant?: 'low' | 'high'; // For fingers with low/high placements
+}
+
+export interface Fingerboard {
+  // Semitone above the open string where the 1st finger sits in each position (1-7)
+  positionBases: Record<number, number>;
+  // Finger frame relative to the position base
+  handFrame: Array<{ offset: number; finger: number; variant?: 'low' | 'high' }>;
+}
+
+export const MAX_HAND_POSITION = 7;
+
+// Violin-family frame in fifths tuning: whole tones between fingers, low/high placements
+const VIOLIN_FINGERBOARD: Fingerboard = {
+  positionBases: { 1: 1, 2: 3, 3: 5, 4: 7, 5: 8, 6: 10, 7: 12 },
+  handFrame: [
+    { offset: 0, finger: 1, variant: 'low' },
+    { offset: 1, finger: 1, variant: 'high' },
+    { offset: 2, finger: 2, variant: 'low' },
+    { offset: 3, finger: 2, variant: 'high' },
+    { offset: 4, finger: 3 },
+    { offset: 5, finger: 4, variant: 'low' },
+    { offset: 6, finger: 4, variant: 'high' }, // Unison with the next open string
+  ],
+};
+
+// Cello frame: one semitone per finger; position 1 is half position
+const CELLO_FINGERBOARD: Fingerboard = {
+  positionBases: { 1: 1, 2: 2, 3: 4, 4: 5, 5: 7, 6: 9, 7: 12 },
+  handFrame: [
+    { offset: 0, finger: 1 },
+    { offset: 1, finger: 2 },
+    { offset: 2, finger: 3 },
+    { offset: 3, finger: 4 },
+  ],
+};
+
+/**
+ * Highest semitone reachable above the open string
+ */
+export function maxSemitonesFromOpen(fingerboard: Fingerboard): number {
+  return fingerboard.positionBases[MAX_HAND_POSITION] + fingerboard.handFrame[fingerboard.handFrame.length - 1].offset;
+}
+
+/**
+ * Every way to stop a note the given number of semitones above the open string,
+ * lowest hand position first
+ */
+export function getPlacements(semitones: number, fingerboard: Fingerboard = VIOLIN_FINGERBOARD): FingerPlacement[] {
+  if (semitones === 0) {
+    return [{ semitones: 0, handPosition: 0, finger: 0 }];
+  }
+
+  const placements: FingerPlacement[] = [];
+  for (let handPosition = 1; handPosition <= MAX_HAND_POSITION; handPosition++) {
+    const frame = fingerboard.handFrame.find(f => fingerboard.positionBases[handPosition] + f.offset === semitones);
+    if (frame) {
+      placements.push({
+        semitones,
+        handPosition,
+        finger: frame.finger,
+        variant: frame.variant,
+      });
+    }
+  }
+
+  return placements;
+}
+
+/**
+ * Ordinal label for a hand position, e.g. 3 -> "3rd position"
+ */
+export function formatHandPosition(handPosition: number): string {
+  if (handPosition === 0) return 'Open string';
+  const suffix = handPosition === 1 ? 'st' : handPosition === 2 ? 'nd' : handPosition === 3 ? 'rd' : 'th';
+  return `${handPosition}${suffix} position`;
+}
+
+// Instruments
+
+// Synth voice for an instrument (see ViolinSynth.playNote)
+export interface SynthTimbre {
+  waveform: OscillatorType; // Fundamental oscillator
+  harmonics: [number, number, number]; // Gains of the 2nd, 3rd and 4th harmonics
+  subHarmonic: number; // Gain of the octave below
+  vibrato: number; // Vibrato depth in Hz (0 = none)
+  attack: number; // Seconds to full level
+  plucked: boolean; // Decays after the attack instead of sustaining
+  brightness: number; // Low-pass cutoff in Hz (raised with pitch)
+}
+
+export interface InstrumentProfile {
+  id: string;
+  name: string;
+  strings: StringName[]; // Lowest string first
+  colors: Record<StringName, string>; // Lane and label color for each string
+  fingerboard: Fingerboard;
+  timbre: SynthTimbre;
+}
+
+export const VIOLIN: InstrumentProfile = {
+  id: 'violin',
+  name: 'Violin',
+  strings: ['G', 'D', 'A', 'E'],
+  colors: {
+    G: '#8b5cf6', // Purple (lowest)
+    D: '#ef4444', // Red
+    A: '#3b82f6', // Blue
+    E: '#f59e0b', // Amber (highest)
+  },
+  fingerboard: VIOLIN_FINGERBOARD,
+  timbre: {
+    waveform: 'sawtooth',
+    harmonics: [0.3, 0.15, 0.08],
+    subHarmonic: 0.1,
+    vibrato: 8,
+    attack: 0.08,
+    plucked: false,
+    brightness: 3000,
+  },
+};
+
+export const INSTRUMENTS: InstrumentProfile[] = [
+  VIOLIN,
+  {
+    id: 'viola',
+    name: 'Viola',
+    strings: ['C', 'G', 'D', 'A'],
+    colors: { C: '#10b981', G: '#8b5cf6', D: '#ef4444', A: '#3b82f6' },
+    fingerboard: VIOLIN_FINGERBOARD,
+    timbre: {
+      waveform: 'sawtooth',
+      harmonics: [0.35, 0.18, 0.06],
+      subHarmonic: 0.15,
+      vibrato: 6,
+      attack: 0.1,
+      plucked: false,
+      brightness: 2400,
+    },
+  },
+  {
+    id: 'cello',
+    name: 'Cello',
+    strings: ['C', 'G', 'D', 'A'],
+    colors: { C: '#059669', G: '#7c3aed', D: '#dc2626', A: '#2563eb' },
+    fingerboard: CELLO_FINGERBOARD,
+    timbre: {
+      waveform: 'sawtooth',
+      harmonics: [0.4, 0.2, 0.05],
+      subHarmonic: 0.2,
+      vibrato: 4,
+      attack: 0.12,
+      plucked: false,
+      brightness: 1800,
+    },
+  },
+  {
+    // Fretted, but tuned in fifths like the violin so the same finger frame applies
+    id: 'mandolin',
+    name: 'Mandolin',
+    strings: ['G', 'D', 'A', 'E'],
+    colors: { G: '#a855f7', D: '#ec4899', A: '#14b8a6', E: '#eab308' },
+    fingerboard: VIOLIN_FINGERBOARD,
+    timbre: {
+      waveform: 'triangle',
+      harmonics: [0.5, 0.25, 0.12],
+      subHarmonic: 0,
+      vibrato: 0,
+      attack: 0.005,
+      plucked: true,
+      brightness: 4000,
+    },
+  },
+];
+
+/**
+ * Look up an instrument by id, falling back to the violin
+ */
+export function findInstrument(id?: string): InstrumentProfile {
+  return INSTRUMENTS.find(i => i.id === id) || VIOLIN;
+}
+
+// Note locations
+
+export interface NoteLocation extends FingerPlacement {
+  string: StringName;
+  midi: number;
+}
+
+/**
+ * Every string, hand position and finger that plays a MIDI note in a tuning,
+ * lowest string first
+ */
+export function findLocations(midi: number, tuning: StringTuning, instrument: InstrumentProfile = VIOLIN): NoteLocation[] {
+  const maxSemitones = maxSemitonesFromOpen(instrument.fingerboard);
+  const locations: NoteLocation[] = [];
+  for (const string of instrument.strings) {
+    const semitones = midi - tuning[string];
+    if (semitones < 0 || semitones > maxSemitones) continue;
+    for (const placement of getPlacements(semitones, instrument.fingerboard)) {
+      locations.push({ ...placement, string, midi });
+    }
+  }
+  return locations;
+}
+
+/**
+ * Lowest open string and highest stopped note for a tuning
+ */
+export function playableRange(
+  tuning: StringTuning,
+  instrument: InstrumentProfile = VIOLIN
+): { lowest: number; highest: number } {
+  const openStrings = instrument.strings.map(string => tuning[string]);
+  return {
+    lowest: Math.min(...openStrings),
+    highest: Math.max(...openStrings) + maxSemitonesFromOpen(instrument.fingerboard),
+  };
+}
+
+/**
+ * Every playable MIDI note with the given pitch class, lowest first
+ */
+export function playableMidis(pitchClass: number, tuning: StringTuning, instrument: InstrumentProfile = VIOLIN): number[] {
+  const { lowest, highest } = playableRange(tuning, instrument);
+  const midis: number[] = [];
+  for (let midi = lowest + ((pitchClass - lowest) % 12 + 12) % 12; midi <= highest; midi += 12) {
+    midis.push(midi);
+  }
+  return midis;
+}
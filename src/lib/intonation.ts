@@ -0,0 +1,122 @@
+/**
+ * Intonation systems for playback: equal temperament, just ratios from Sa,
+ * and the 22-shruti scale with raga-specific shruti choices
+ * Sa itself always sounds at its equal-tempered pitch (the pitch-pipe / tanpura Sa)
+ */
+
+import { findRaga } from './ragas';
+
+export type IntonationSystem = 'equal' | 'just' | 'shruti';
+
+export const INTONATION_SYSTEMS: Array<{ id: IntonationSystem; name: string }> = [
+  { id: 'equal', name: 'Equal temperament' },
+  { id: 'just', name: 'Just intonation (from Sa)' },
+  { id: 'shruti', name: '22 shrutis (raga-specific)' },
+];
+
+export interface Shruti {
+  number: number; // 1-22
+  swara: string; // Swarasthana the shruti belongs to
+  semitone: number; // Nearest semitone above Sa
+  ratio: [number, number];
+}
+
+const shruti = (number: number, swara: string, semitone: number, ratio: [number, number]): Shruti => ({
+  number,
+  swara,
+  semitone,
+  ratio,
+});
+
+// The 22 shrutis of the octave; every semitone but Sa and Pa has a lower and a higher shruti
+export const SHRUTIS: Shruti[] = [
+  shruti(1, 'Sa', 0, [1, 1]),
+  shruti(2, 'Ri1', 1, [256, 243]),
+  shruti(3, 'Ri1', 1, [16, 15]),
+  shruti(4, 'Ri2', 2, [10, 9]),
+  shruti(5, 'Ri2', 2, [9, 8]),
+  shruti(6, 'Ga2', 3, [32, 27]),
+  shruti(7, 'Ga2', 3, [6, 5]),
+  shruti(8, 'Ga3', 4, [5, 4]),
+  shruti(9, 'Ga3', 4, [81, 64]),
+  shruti(10, 'Ma1', 5, [4, 3]),
+  shruti(11, 'Ma1', 5, [27, 20]),
+  shruti(12, 'Ma2', 6, [45, 32]),
+  shruti(13, 'Ma2', 6, [729, 512]),
+  shruti(14, 'Pa', 7, [3, 2]),
+  shruti(15, 'Dha1', 8, [128, 81]),
+  shruti(16, 'Dha1', 8, [8, 5]),
+  shruti(17, 'Dha2', 9, [5, 3]),
+  shruti(18, 'Dha2', 9, [27, 16]),
+  shruti(19, 'Ni2', 10, [16, 9]),
+  shruti(20, 'Ni2', 10, [9, 5]),
+  shruti(21, 'Ni3', 11, [15, 8]),
+  shruti(22, 'Ni3', 11, [243, 128]),
+];
+
+// Five-limit just ratio for each semitone above Sa (shruti numbers)
+const JUST_SHRUTIS = [1, 3, 5, 7, 8, 10, 12, 14, 16, 17, 20, 21];
+
+// Shruti choices that differ from the just ratios, by raga id
+// Janya ragas without an entry use their parent melakarta's choices
+const RAGA_SHRUTIS: Record<string, number[]> = {
+  'mela-8': [2, 6, 15, 19], // Hanumatodi: low Ri, Ga, Dha and Ni
+  'mela-15': [9, 22], // Mayamalavagowla: high Ga and Ni
+  'mela-20': [19], // Natabhairavi
+  'mela-22': [4, 19], // Kharaharapriya: low Ri and Ni
+  'mela-28': [19], // Harikambhoji
+  'mela-29': [18], // Dheerasankarabharanam: Pythagorean Dha
+  'mela-65': [9, 13], // Mechakalyani: high Ga and prati Ma
+  'mohanam': [9, 18], // Pentatonic Ga and Dha from fifths
+};
+
+/**
+ * Shruti used for each semitone above Sa in a raga (index 0 = Sa ... 11 = Ni3)
+ */
+export function ragaShrutis(ragaId?: string): Shruti[] {
+  const shrutis = JUST_SHRUTIS.map(n => SHRUTIS[n - 1]);
+  const raga = findRaga(ragaId);
+  const choices = raga ? RAGA_SHRUTIS[raga.id] ?? RAGA_SHRUTIS[`mela-${raga.melakarta}`] : undefined;
+  for (const n of choices ?? []) {
+    const choice = SHRUTIS[n - 1];
+    shrutis[choice.semitone] = choice;
+  }
+  return shrutis;
+}
+
+/**
+ * Frequency ratio above Sa for a semitone (0-11) in an intonation system
+ */
+export function swaraRatio(semitone: number, system: IntonationSystem, ragaId?: string): number {
+  if (system === 'equal') return Math.pow(2, semitone / 12);
+  const [num, den] = (system === 'just' ? SHRUTIS[JUST_SHRUTIS[semitone] - 1] : ragaShrutis(ragaId)[semitone]).ratio;
+  return num / den;
+}
+
+/**
+ * Frequency in Hz of a MIDI note, tuned from the given Sa
+ */
+export function noteFrequency(midi: number, saMidi: number, system: IntonationSystem = 'equal', ragaId?: string): number {
+  const offset = midi - saMidi;
+  const semitone = ((offset % 12) + 12) % 12;
+  const octave = (offset - semitone) / 12;
+  const saFrequency = 440 * Math.pow(2, (saMidi - 69) / 12);
+  return saFrequency * Math.pow(2, octave) * swaraRatio(semitone, system, ragaId);
+}
+
+/**
+ * Deviation of a note from equal temperament in cents (positive = sharper)
+ */
+export function centsDeviation(midi: number, saMidi: number, system: IntonationSystem, ragaId?: string): number {
+  const semitone = (((midi - saMidi) % 12) + 12) % 12;
+  return 1200 * Math.log2(swaraRatio(semitone, system, ragaId)) - semitone * 100;
+}
+
+/**
+ * Cents deviation as a label, e.g. +14¢ or −16¢
+ */
+export function formatCents(cents: number): string {
+  const rounded = Math.round(cents);
+  if (rounded === 0) return '±0¢';
+  return `${rounded > 0 ? '+' : '−'}${Math.abs(rounded)}¢`;
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { MidiExporter } from './midi-export';
+import { MidiParser } from './midi-parser';
+import { ParsedScore } from '@/types';
+
+const pitches = (score: ParsedScore) => score.notes.map(n => (n.rest ? 'z' : `${n.pitch}${n.octave}`));
+const durations = (score: ParsedScore) => score.notes.map(n => n.duration);
+const roundTrip = (midi: Uint8Array) => MidiParser.parse(midi.slice().buffer);
+
+describe('MIDI export and import round trip', () => {
+  it('reads back the notes, rests, tempo and time signature', () => {
+    const score: ParsedScore = {
+      title: 'Varnam',
+      tempo: 90,
+      timeSignature: { beats: 3, beatType: 4 },
+      notes: [
+        { pitch: 'D', octave: 4, duration: 1 },
+        { pitch: 'E', octave: 4, duration: 0.5 },
+        { pitch: 'F#', octave: 4, duration: 0.5 },
+        { pitch: '', octave: 0, duration: 1, rest: true },
+        { pitch: 'A', octave: 4, duration: 1.5 },
+        { pitch: 'C#', octave: 5, duration: 0.25 },
+        { pitch: 'D', octave: 5, duration: 2.25 },
+      ],
+    };
+
+    const parsed = roundTrip(MidiExporter.toMidi(score));
+
+    expect(parsed.title).toBe('Varnam');
+    expect(parsed.tempo).toBe(90);
+    expect(parsed.timeSignature).toEqual({ beats: 3, beatType: 4 });
+    expect(pitches(parsed)).toEqual(pitches(score));
+    expect(durations(parsed)).toEqual(durations(score));
+  });
+
+  it('writes notes folded into range at the octave they are played in', () => {
+    const score: ParsedScore = { notes: [{ pitch: 'C', octave: 3, duration: 1 }, { pitch: 'D', octave: 4, duration: 1 }] };
+    const positions = [{ string: 'G', fingerPosition: 3, handPosition: 1, octaveShift: 1 }, null];
+
+    expect(pitches(roundTrip(MidiExporter.toMidi(score, positions)))).toEqual(['C4', 'D4']);
+  });
+
+  it('leaves out notes shorter than a tick', () => {
+    const score: ParsedScore = {
+      notes: [
+        { pitch: 'D', octave: 4, duration: 1 },
+        { pitch: 'E', octave: 4, duration: 0.0001 },
+        { pitch: 'F#', octave: 4, duration: 1 },
+      ],
+    };
+
+    expect(pitches(roundTrip(MidiExporter.toMidi(score)))).toEqual(['D4', 'F#4']);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Standard MIDI File export of a converted score (format 0, one track)
+ * Tempo, time signature and title are written as meta events; each note can carry
+ * its swara as a lyric event and its string and finger as a text event
+ */
+
+import { ExportPosition, ParsedScore } from '@/types';
+import { CarnaticConverter } from './carnatic-converter-correct';
+import { exportFileName } from './download';
+import { formatHandPosition } from './instrument';
+import { ragaSwaraNames } from './ragas';
+import { DEFAULT_SA_MIDI } from './shruti';
+import { SwaraExporter } from './swara-export';
+
+export interface MidiExportOptions {
+  saMidi?: number; // Sa as a MIDI number, for swara lyrics (default D3)
+  ragaId?: string; // Overrides the raga stored with the score
+  swaras?: boolean; // Write each note's swara as a lyric event
+  fingering?: boolean; // Write each note's string and finger as a text event
+  instrumentId?: string; // Picks the General MIDI program (default violin)
+}
+
+const TICKS_PER_BEAT = 480;
+const VELOCITY = 80;
+
+// General MIDI programs (zero-based); mandolin has none of its own and uses steel-string guitar
+const PROGRAMS: Record<string, number> = { violin: 40, viola: 41, cello: 42, mandolin: 25 };
+
+export class MidiExporter {
+  /**
+   * Render a score as a Standard MIDI File; notes folded into range are written at the octave
+   * they are played in, and positions without a string get no fingering text
+   */
+  static toMidi(
+    score: ParsedScore,
+    positions: (ExportPosition | null)[] = [],
+    options: MidiExportOptions = {}
+  ): Uint8Array {
+    const saMidi = options.saMidi ?? DEFAULT_SA_MIDI;
+    const names = ragaSwaraNames(options.ragaId ?? score.raga);
+    const tempo = score.tempo ?? 120;
+    const beats = score.timeSignature?.beats ?? 4;
+    const beatType = score.timeSignature?.beatType ?? 4;
+
+    const events: number[] = [];
+    let lastTick = 0;
+    const at = (tick: number, ...bytes: number[]) => {
+      if (tick < lastTick) throw new Error(`MIDI events out of order at tick ${tick}`);
+      events.push(...this.variableLength(tick - lastTick), ...bytes);
+      lastTick = tick;
+    };
+    const meta = (tick: number, type: number, data: number[]) => at(tick, 0xff, type, ...this.variableLength(data.length), ...data);
+    const text = (value: string) => Array.from(new TextEncoder().encode(value));
+
+    if (score.title) meta(0, 0x03, text(score.title));
+    const microseconds = Math.round(60000000 / tempo);
+    meta(0, 0x51, [(microseconds >> 16) & 0xff, (microseconds >> 8) & 0xff, microseconds & 0xff]);
+    meta(0, 0x58, [beats, Math.max(0, Math.round(Math.log2(beatType))), 24, 8]);
+    at(0, 0xc0, PROGRAMS[options.instrumentId ?? 'violin'] ?? PROGRAMS.violin);
+
+    // Ticks come from the running beat count, so rounding never accumulates
+    let beat = 0;
+    score.notes.forEach((note, index) => {
+      const start = Math.round(beat * TICKS_PER_BEAT);
+      beat += note.duration || 1;
+      if (note.rest) return;
+
+      // A note too short for one tick would end after the next note starts, so it is left out
+      const end = Math.round(beat * TICKS_PER_BEAT);
+      if (end <= start) return;
+      const position = positions[index];
+      const midi = CarnaticConverter.noteToMidi(note.pitch, note.octave) + (position?.octaveShift ?? 0) * 12;
+      if (midi < 0 || midi > 127) return;
+
+      if (options.swaras) meta(start, 0x05, text(SwaraExporter.swaraLetter(midi, saMidi, names)));
+      if (options.fingering && position?.string) meta(start, 0x01, text(this.fingeringText(position)));
+      at(start, 0x90, midi, VELOCITY);
+      at(end, 0x80, midi, 0x40);
+    });
+
+    meta(Math.max(lastTick, Math.round(beat * TICKS_PER_BEAT)), 0x2f, []);
+
+    const header = [
+      ...this.ascii('MThd'), ...this.uint32(6),
+      0, 0, // Format 0
+      0, 1, // One track
+      (TICKS_PER_BEAT >> 8) & 0xff, TICKS_PER_BEAT & 0xff,
+    ];
+    return new Uint8Array([...header, ...this.ascii('MTrk'), ...this.uint32(events.length), ...events]);
+  }
+
+  /**
+   * Suggested file name for a MIDI download
+   */
+  static fileName(score: ParsedScore): string {
+    return exportFileName(score, '.mid');
+  }
+
+  /**
+   * String and finger as shown to the player, e.g. "A string, finger 2 (3rd position)"
+   */
+  private static fingeringText(position: ExportPosition): string {
+    if (position.fingerPosition === 0) return `${position.string} string, open`;
+    return `${position.string} string, finger ${position.fingerPosition} (${formatHandPosition(position.handPosition)})`;
+  }
+
+  private static variableLength(value: number): number[] {
+    const bytes = [value & 0x7f];
+    for (let rest = value >> 7; rest > 0; rest >>= 7) bytes.unshift((rest & 0x7f) | 0x80);
+    return bytes;
+  }
+
+  private static uint32(value: number): number[] {
+    return [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+  }
+
+  private static ascii(text: string): number[] {
+    return Array.from(text, c => c.charCodeAt(0));
+  }
+}
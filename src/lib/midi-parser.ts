@@ -0,0 +1,247 @@
+/**
+ * Standard MIDI File (format 0 and 1) import
+ * One track (optionally one channel) becomes the melody: note-on/off pairs are quantized
+ * to a beat grid, chords keep their top note, overlaps are cut at the next onset and gaps
+ * become rests. Tempo, time signature, key signature and track names come from meta events.
+ */
+
+import { AccompanimentPart, ParsedScore, WesternNote } from '@/types';
+import { Transposer } from './transpose';
+
+export interface MidiTrackInfo {
+  index: number;
+  name: string;
+  channels: number[]; // Channels (1-16) with notes in the track
+  noteCount: number;
+}
+
+export interface MidiOptions {
+  track?: number; // Track to convert (default the first with notes)
+  channel?: number; // Channel within the track, 1-16 (default all)
+  grid?: number; // Quantization step in beats (default a sixteenth, 0.25)
+  accompaniment?: boolean; // Keep the other tracks for playback
+}
+
+interface MidiEvent {
+  tick: number;
+  type: 'on' | 'off' | 'meta';
+  channel: number; // 1-16
+  key: number;
+  metaType: number;
+  data: Uint8Array;
+}
+
+interface MidiTrack {
+  name?: string;
+  events: MidiEvent[];
+}
+
+interface MidiFile {
+  format: number;
+  ticksPerBeat: number;
+  tracks: MidiTrack[];
+}
+
+interface TimedNote {
+  start: number; // Beats
+  end: number;
+  midi: number;
+}
+
+export class MidiParser {
+  /**
+   * Tracks of a MIDI file with their names, channels and note counts
+   */
+  static listTracks(buffer: ArrayBuffer): MidiTrackInfo[] {
+    return this.read(buffer).tracks.map((track, index) => {
+      const notes = track.events.filter(e => e.type === 'on');
+      return {
+        index,
+        name: track.name || `Track ${index + 1}`,
+        channels: Array.from(new Set(notes.map(e => e.channel))).sort((a, b) => a - b),
+        noteCount: notes.length,
+      };
+    });
+  }
+
+  /**
+   * Parse a MIDI file into a score: the chosen track and channel as the melody,
+   * optionally with the other tracks as accompaniment
+   */
+  static parse(buffer: ArrayBuffer, options: MidiOptions = {}): ParsedScore {
+    const file = this.read(buffer);
+    const grid = options.grid ?? 0.25;
+    const score: ParsedScore = { notes: [] };
+    const meta = file.tracks.flatMap(track => track.events.filter(e => e.type === 'meta'));
+
+    // Tempo, time and key come from their first meta events in any track
+    const tempo = meta.find(e => e.metaType === 0x51 && e.data.length >= 3);
+    if (tempo) {
+      const microseconds = (tempo.data[0] << 16) | (tempo.data[1] << 8) | tempo.data[2];
+      if (microseconds > 0) score.tempo = Math.round(60000000 / microseconds);
+    }
+    const time = meta.find(e => e.metaType === 0x58 && e.data.length >= 2);
+    if (time) score.timeSignature = { beats: time.data[0], beatType: 2 ** time.data[1] };
+    const key = meta.find(e => e.metaType === 0x59 && e.data.length >= 1);
+    const flats = !!key && (key.data[0] << 24 >> 24) < 0;
+
+    // In format 1 the first track's name is the song title
+    if (file.format === 1 && file.tracks[0]?.name) score.title = file.tracks[0].name;
+
+    const trackIndex = options.track ?? file.tracks.findIndex(t => t.events.some(e => e.type === 'on'));
+    const track = file.tracks[trackIndex];
+    if (!track) return score;
+
+    score.notes = this.toMelody(this.pairNotes(track, file.ticksPerBeat, options.channel), grid, flats);
+    if (file.format === 0 && track.name) score.title = track.name;
+
+    // Other tracks, and the chosen track's other channels, play along
+    if (options.accompaniment) {
+      score.accompaniment = file.tracks
+        .map((other, index): AccompanimentPart => {
+          const timed = this.pairNotes(other, file.ticksPerBeat)
+            .filter(n => other !== track || (options.channel !== undefined && n.channel !== options.channel));
+          return { name: other.name || `Track ${index + 1}`, notes: this.toMelody(timed, grid, flats) };
+        })
+        .filter(part => part.notes.some(n => !n.rest));
+    }
+
+    return score;
+  }
+
+  /**
+   * One line from timed notes: top note of each onset, cut at the next onset, gaps as rests
+   */
+  private static toMelody(timed: TimedNote[], grid: number, flats: boolean): WesternNote[] {
+    const quantize = (beats: number) => grid > 0 ? Math.round(beats / grid) * grid : beats;
+    const onsets = new Map<number, TimedNote>();
+    timed.forEach(note => {
+      const start = quantize(note.start);
+      const end = Math.max(quantize(note.end), start + (grid || 0.25));
+      const current = onsets.get(start);
+      if (!current || note.midi > current.midi) onsets.set(start, { start, end, midi: note.midi });
+    });
+
+    const sorted = Array.from(onsets.values()).sort((a, b) => a.start - b.start);
+    const notes: WesternNote[] = [];
+    let cursor = 0;
+    sorted.forEach((note, i) => {
+      if (note.start > cursor) notes.push({ pitch: '', octave: 0, duration: round(note.start - cursor), rest: true });
+      const end = Math.min(note.end, sorted[i + 1]?.start ?? Infinity);
+      notes.push({ ...Transposer.spellMidi(note.midi, flats), duration: round(end - note.start) });
+      cursor = end;
+    });
+    return notes;
+  }
+
+  /**
+   * Note-on/off pairs of a track in beats; a note-on with velocity 0 is a note-off,
+   * and repeated notes on one key close first in, first out
+   */
+  private static pairNotes(track: MidiTrack, ticksPerBeat: number, channel?: number): Array<TimedNote & { channel: number }> {
+    const open = new Map<string, number[]>();
+    const notes: Array<TimedNote & { channel: number }> = [];
+
+    track.events.forEach(event => {
+      if (event.type === 'meta' || (channel !== undefined && event.channel !== channel)) return;
+      const id = `${event.channel}:${event.key}`;
+      if (event.type === 'on') {
+        open.set(id, [...(open.get(id) ?? []), event.tick]);
+        return;
+      }
+      const starts = open.get(id);
+      const start = starts?.shift();
+      if (start === undefined) return;
+      notes.push({ start: start / ticksPerBeat, end: event.tick / ticksPerBeat, midi: event.key, channel: event.channel });
+    });
+
+    return notes;
+  }
+
+  /**
+   * Chunks and events of a Standard MIDI File, with running status and absolute ticks
+   */
+  private static read(buffer: ArrayBuffer): MidiFile {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    const chunkId = (offset: number) => String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+
+    if (bytes.length < 14 || chunkId(0) !== 'MThd') throw new Error('Not a MIDI file');
+    const format = view.getUint16(8);
+    const trackCount = view.getUint16(10);
+    const division = view.getUint16(12);
+    if (format > 1) throw new Error('Only MIDI format 0 and 1 files are supported');
+    if (division & 0x8000) throw new Error('SMPTE-timed MIDI files are not supported');
+
+    const tracks: MidiTrack[] = [];
+    let offset = 8 + view.getUint32(4);
+    while (tracks.length < trackCount && offset + 8 <= bytes.length) {
+      const length = view.getUint32(offset + 4);
+      if (chunkId(offset) === 'MTrk') tracks.push(this.readTrack(bytes, offset + 8, Math.min(offset + 8 + length, bytes.length)));
+      offset += 8 + length;
+    }
+
+    return { format, ticksPerBeat: division || 480, tracks };
+  }
+
+  private static readTrack(bytes: Uint8Array, start: number, end: number): MidiTrack {
+    const track: MidiTrack = { events: [] };
+    let position = start;
+    let tick = 0;
+    let status = 0;
+
+    const variableLength = () => {
+      let value = 0;
+      for (let i = 0; i < 4 && position < end; i++) {
+        const byte = bytes[position++];
+        value = (value << 7) | (byte & 0x7f);
+        if (!(byte & 0x80)) break;
+      }
+      return value;
+    };
+
+    while (position < end) {
+      tick += variableLength();
+      if (bytes[position] & 0x80) status = bytes[position++];
+
+      if (status === 0xff) {
+        const metaType = bytes[position++];
+        const length = variableLength();
+        const data = bytes.subarray(position, position + length);
+        position += length;
+        if (metaType === 0x2f) break;
+        if (metaType === 0x03 && track.name === undefined) track.name = new TextDecoder().decode(data).trim() || undefined;
+        track.events.push({ tick, type: 'meta', channel: 0, key: 0, metaType, data });
+        status = 0; // Meta and sysex events cancel running status
+        continue;
+      }
+      if (status === 0xf0 || status === 0xf7) {
+        position += variableLength();
+        status = 0;
+        continue;
+      }
+
+      const kind = status & 0xf0;
+      const channel = (status & 0x0f) + 1;
+      if (kind === 0x80 || kind === 0x90) {
+        const key = bytes[position];
+        const velocity = bytes[position + 1];
+        const type = kind === 0x90 && velocity > 0 ? 'on' : 'off';
+        track.events.push({ tick, type, channel, key, metaType: 0, data: bytes.subarray(0, 0) });
+        position += 2;
+      } else if (kind === 0xc0 || kind === 0xd0) {
+        position += 1;
+      } else if (kind >= 0xa0) {
+        position += 2;
+      } else {
+        throw new Error('Corrupt MIDI track data');
+      }
+    }
+
+    return track;
+  }
+}
+
+function round(beats: number): number {
+  return Math.round(beats * 1e6) / 1e6;
+}
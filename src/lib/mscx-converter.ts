@@ -0,0 +1,312 @@
+/**
+ * MuseScore (.mscx) to MusicXML conversion, so MuseScore files share the MusicXML pipeline
+ * Covers the subset the parser reads: parts and staves, voices, notes and rests with dots
+ * and tuplets, chords, grace notes, ties, time and key signatures, tempo, repeats, voltas,
+ * and D.C./D.S./Fine/Segno/Coda marks; layout, lyrics and articulations are dropped
+ */
+
+const DURATIONS: Record<string, number> = {
+  long: 16,
+  breve: 8,
+  whole: 4,
+  half: 2,
+  quarter: 1,
+  eighth: 0.5,
+  '16th': 0.25,
+  '32nd': 0.125,
+  '64th': 0.0625,
+  '128th': 0.03125,
+};
+
+const GRACE_TAGS = ['acciaccatura', 'appoggiatura', 'grace4', 'grace8after', 'grace16', 'grace16after', 'grace32', 'grace32after'];
+
+// Letters along the line of fifths; MuseScore's tpc 14 is C, 15 is G, 13 is F
+const FIFTHS_LETTERS = 'FCGDAEB';
+const DEFAULT_TPC = [14, 21, 16, 23, 18, 13, 20, 15, 22, 17, 24, 19];
+
+// MuseScore marker labels and the <sound> attribute each one becomes
+const MARKER_SOUNDS: Record<string, string> = {
+  segno: 'segno="segno"',
+  varsegno: 'segno="segno"',
+  coda: 'coda="coda"',
+  varcoda: 'coda="coda"',
+  codab: 'coda="coda"',
+  toCoda: 'tocoda="coda"',
+  fine: 'fine="yes"',
+};
+
+export class MscxConverter {
+  /**
+   * MusicXML (partwise) text for a MuseScore .mscx document
+   */
+  static toMusicXML(mscx: string): string {
+    const doc = new DOMParser().parseFromString(mscx, 'text/xml');
+    const score = doc.querySelector('Score');
+    if (!score) throw new Error('Not a MuseScore file');
+
+    const divisions = parseInt(childText(score, 'Division') || '') || 480;
+    const parts = children(score, 'Part');
+    const staves = children(score, 'Staff');
+
+    // Staff ids declared by each part, in order
+    const partStaves = parts.map(part =>
+      children(part, 'Staff')
+        .map(declared => staves.find(s => s.getAttribute('id') === declared.getAttribute('id')))
+        .filter((staff): staff is Element => !!staff)
+    );
+
+    const meta = (name: string) =>
+      Array.from(score.querySelectorAll('metaTag')).find(tag => tag.getAttribute('name') === name)?.textContent?.trim();
+    const title = meta('workTitle') || Array.from(score.querySelectorAll('Text'))
+      .find(text => childText(text, 'style') === 'Title')
+      ?.querySelector('text')?.textContent?.trim();
+    const composer = meta('composer');
+
+    const partList = parts.map((part, p) => {
+      const name = childText(part, 'trackName') || part.querySelector('longName')?.textContent?.trim() || `Part ${p + 1}`;
+      return `<score-part id="P${p + 1}"><part-name>${escape(name)}</part-name></score-part>`;
+    });
+
+    const body = partStaves.map((partStaffs, p) => `<part id="P${p + 1}">${this.convertPart(partStaffs, divisions)}</part>`);
+
+    return '<?xml version="1.0" encoding="UTF-8"?>' +
+      '<score-partwise version="3.1">' +
+      (title ? `<work><work-title>${escape(title)}</work-title></work>` : '') +
+      (composer ? `<identification><creator type="composer">${escape(composer)}</creator></identification>` : '') +
+      `<part-list>${partList.join('')}</part-list>` +
+      body.join('') +
+      '</score-partwise>';
+  }
+
+  /**
+   * Measures of one part: every staff and voice of a measure, separated by <backup>,
+   * with barlines taken from the first staff
+   */
+  private static convertPart(staves: Element[], divisions: number): string {
+    const measuresByStaff = staves.map(staff => children(staff, 'Measure'));
+    const count = Math.max(0, ...measuresByStaff.map(m => m.length));
+    const openTies = new Map<string, Set<number>>();
+    let voltaEnd = -1;
+    let voltaNumbers = '1';
+    let out = '';
+
+    for (let m = 0; m < count; m++) {
+      let measure = '';
+      if (m === 0) {
+        measure += `<attributes><divisions>${divisions}</divisions>${staves.length > 1 ? `<staves>${staves.length}</staves>` : ''}</attributes>`;
+      }
+
+      const first = measuresByStaff[0]?.[m];
+      if (first && first.querySelector('startRepeat')) {
+        measure += '<barline location="left"><repeat direction="forward"/></barline>';
+      }
+      const volta = first && Array.from(first.querySelectorAll('Spanner'))
+        .find(spanner => spanner.getAttribute('type') === 'Volta' && spanner.querySelector('Volta'));
+      if (volta) {
+        voltaNumbers = escape((childText(volta.querySelector('Volta')!, 'endings') || '1').replace(/\s+/g, ''));
+        voltaEnd = m + Math.max(1, parseInt(volta.querySelector('next measures')?.textContent || '1') || 1) - 1;
+        measure += `<barline location="left"><ending number="${voltaNumbers}" type="start"/></barline>`;
+      }
+
+      let written = 0; // Ticks of the previous voice, to back up over
+      measuresByStaff.forEach((staffMeasures, s) => {
+        const staffMeasure = staffMeasures[m];
+        if (!staffMeasure) return;
+        const voices = children(staffMeasure, 'voice');
+        (voices.length ? voices : [staffMeasure]).forEach((voice, v) => {
+          if (written > 0) measure += `<backup><duration>${written}</duration></backup>`;
+          const key = `${s}-${v}`;
+          const converted = this.convertVoice(voice, divisions, s * 4 + v + 1, staves.length > 1 ? s + 1 : 0, openTies.get(key) ?? new Set(), s === 0);
+          openTies.set(key, converted.openTies);
+          measure += converted.xml;
+          written = converted.ticks;
+        });
+      });
+
+      if (first) {
+        const endRepeat = first.querySelector('endRepeat');
+        const closesVolta = m === voltaEnd;
+        if (endRepeat || closesVolta) {
+          const times = parseInt(endRepeat?.textContent || '') || 2;
+          measure += '<barline location="right">' +
+            (closesVolta ? `<ending number="${voltaNumbers}" type="${endRepeat ? 'stop' : 'discontinue'}"/>` : '') +
+            (endRepeat ? `<repeat direction="backward"${times !== 2 ? ` times="${times}"` : ''}/>` : '') +
+            '</barline>';
+        }
+      }
+
+      out += `<measure number="${m + 1}">${measure}</measure>`;
+    }
+
+    return out;
+  }
+
+  /**
+   * One voice of one measure as MusicXML notes and directions, with the ticks it fills
+   * and the pitches left tied into the next measure
+   */
+  private static convertVoice(
+    voice: Element,
+    divisions: number,
+    voiceNumber: number,
+    staffNumber: number,
+    tiedIn: Set<number>,
+    withDirections: boolean
+  ): { xml: string; ticks: number; openTies: Set<number> } {
+    const tuplets: number[] = []; // Stack of normal/actual ratios (MuseScore 3 and later)
+    const tupletsById = new Map<string, number>(); // Ratios by id (MuseScore 2)
+    let openTies = tiedIn;
+    let ticks = 0;
+    let xml = '';
+    const tail = `<voice>${voiceNumber}</voice>`;
+    const staff = staffNumber ? `<staff>${staffNumber}</staff>` : '';
+
+    Array.from(voice.children).forEach(element => {
+      switch (element.tagName) {
+        case 'TimeSig':
+          if (withDirections) {
+            xml += `<attributes><time><beats>${childText(element, 'sigN') || 4}</beats><beat-type>${childText(element, 'sigD') || 4}</beat-type></time></attributes>`;
+          }
+          return;
+
+        case 'KeySig': {
+          const fifths = childText(element, 'concertKey') || childText(element, 'accidental');
+          if (withDirections && fifths) xml += `<attributes><key><fifths>${parseInt(fifths) || 0}</fifths></key></attributes>`;
+          return;
+        }
+
+        case 'Tempo': {
+          // MuseScore stores quarter notes per second
+          const perSecond = parseFloat(childText(element, 'tempo') || '');
+          if (withDirections && perSecond > 0) xml += `<direction><sound tempo="${Math.round(perSecond * 60 * 100) / 100}"/></direction>`;
+          return;
+        }
+
+        case 'Marker': {
+          const sound = MARKER_SOUNDS[childText(element, 'label') || ''];
+          if (withDirections && sound) xml += `<direction><sound ${sound}/></direction>`;
+          return;
+        }
+
+        case 'Jump':
+          if (withDirections) {
+            xml += childText(element, 'jumpTo') === 'start'
+              ? '<direction><sound dacapo="yes"/></direction>'
+              : '<direction><sound dalsegno="segno"/></direction>';
+          }
+          return;
+
+        case 'Tuplet': {
+          const ratio = (parseFloat(childText(element, 'normalNotes') || '') || 1) /
+            (parseFloat(childText(element, 'actualNotes') || '') || 1);
+          if (element.getAttribute('id')) tupletsById.set(element.getAttribute('id')!, ratio);
+          else tuplets.push(ratio);
+          return;
+        }
+
+        case 'endTuplet':
+          tuplets.pop();
+          return;
+
+        case 'Rest': {
+          const duration = this.duration(element, tuplets, tupletsById, divisions);
+          const measureRest = childText(element, 'durationType') === 'measure';
+          xml += `<note><rest${measureRest ? ' measure="yes"' : ''}/><duration>${duration.ticks}</duration>${tail}${duration.type}${staff}</note>`;
+          ticks += duration.ticks;
+          openTies = new Set();
+          return;
+        }
+
+        case 'Chord': {
+          const grace = GRACE_TAGS.some(tag => children(element, tag).length > 0);
+          const duration = this.duration(element, tuplets, tupletsById, divisions);
+          const startsTie = new Set<number>();
+
+          children(element, 'Note').forEach((note, i) => {
+            const midi = parseInt(childText(note, 'pitch') || '60');
+            const tpc = parseInt(childText(note, 'tpc') || '') || DEFAULT_TPC[((midi % 12) + 12) % 12];
+            const { step, alter, octave } = spell(midi, tpc);
+            const stop = !grace && openTies.has(midi);
+            const start = !grace && (children(note, 'Tie').length > 0 ||
+              children(note, 'Spanner').some(s => s.getAttribute('type') === 'Tie' && children(s, 'next').length > 0));
+            if (start) startsTie.add(midi);
+
+            xml += '<note>' +
+              (grace ? '<grace/>' : '') +
+              (i > 0 ? '<chord/>' : '') +
+              `<pitch><step>${step}</step>${alter ? `<alter>${alter}</alter>` : ''}<octave>${octave}</octave></pitch>` +
+              (grace ? '' : `<duration>${duration.ticks}</duration>`) +
+              (stop ? '<tie type="stop"/>' : '') +
+              (start ? '<tie type="start"/>' : '') +
+              tail + duration.type + staff +
+              '</note>';
+          });
+
+          if (!grace) {
+            ticks += duration.ticks;
+            openTies = startsTie;
+          }
+          return;
+        }
+      }
+    });
+
+    return { xml, ticks, openTies };
+  }
+
+  /**
+   * Length of a chord or rest in ticks, and its <type> and <dot> elements
+   */
+  private static duration(
+    element: Element,
+    tuplets: number[],
+    tupletsById: Map<string, number>,
+    divisions: number
+  ): { ticks: number; type: string } {
+    const durationType = childText(element, 'durationType') || 'quarter';
+    const dots = parseInt(childText(element, 'dots') || '0') || 0;
+
+    let quarters: number;
+    if (durationType === 'measure') {
+      const [numerator, denominator] = (childText(element, 'duration') || '4/4').split('/').map(Number);
+      quarters = 4 * (numerator || 4) / (denominator || 4);
+    } else {
+      quarters = (DURATIONS[durationType] ?? 1) * (2 - 1 / 2 ** dots);
+    }
+
+    tuplets.forEach(ratio => { quarters *= ratio; });
+    const tupletId = childText(element, 'Tuplet');
+    if (tupletId && tupletsById.has(tupletId)) quarters *= tupletsById.get(tupletId)!;
+
+    const type = durationType in DURATIONS ? `<type>${durationType}</type>${'<dot/>'.repeat(dots)}` : '';
+    return { ticks: Math.round(quarters * divisions), type };
+  }
+}
+
+/**
+ * Direct children of an element with the given tag
+ */
+function children(element: Element, tag: string): Element[] {
+  return Array.from(element.children).filter(child => child.tagName === tag);
+}
+
+/**
+ * Trimmed text of the first direct child with the given tag
+ */
+function childText(element: Element, tag: string): string | undefined {
+  return children(element, tag)[0]?.textContent?.trim();
+}
+
+/**
+ * Letter, alteration and octave of a MIDI pitch spelled by MuseScore's tonal pitch class
+ */
+function spell(midi: number, tpc: number): { step: string; alter: number; octave: number } {
+  const index = tpc - 13; // 0 is F on the line of fifths
+  const step = FIFTHS_LETTERS[((index % 7) + 7) % 7];
+  const alter = Math.floor(index / 7);
+  return { step, alter, octave: Math.floor((midi - alter) / 12) - 1 };
+}
+
+function escape(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
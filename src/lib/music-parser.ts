@@ -3,14 +3,27 @@
  * Handles import of Western sheet music in various formats
  */
 
-import { WesternNote } from './carnatic-converter';
-
-export interface ParsedScore {
-  title?: string;
-  composer?: string;
-  tempo?: number;
-  timeSignature?: { beats: number; beatType: number };
-  notes: WesternNote[];
+import { AccompanimentPart, ParsedScore, WesternNote } from '@/types';
+import { ABCParser } from './abc-parser';
+import { noteToMidi, parseNoteSequence, spellPitch } from './instrument';
+import { MscxConverter } from './mscx-converter';
+import { Measure, unrollMeasures } from './repeats';
+import { ZipReader } from './zip';
+
+export type { ParsedScore };
+
+export interface PartInfo {
+  id: string;
+  name: string;
+  voices: string[]; // Voice numbers used in the part, e.g. ["1", "2"]
+  staves: number; // Staves in the part (2 for piano)
+}
+
+export interface MusicXMLOptions {
+  partId?: string; // Part to convert (default the first)
+  voice?: string; // Voice to read (default the first one in the part or staff)
+  staff?: string; // Staff to read, e.g. "1" for a piano's right hand (default any)
+  accompaniment?: boolean; // Keep the other parts for playback
 }
 
 export interface MeasureNote {
@@ -20,11 +33,72 @@ export interface MeasureNote {
   type: string; // whole, half, quarter, eighth, etc.
 }
 
+// Uploads that read as MusicXML: plain, compressed, and MuseScore files converted on the way in
+const MUSICXML_FILE = /\.(xml|musicxml|mxl|mscx|mscz)$/i;
+
 export class MusicXMLParser {
   /**
-   * Parse MusicXML content
+   * Whether a file is MusicXML, compressed MusicXML (.mxl) or MuseScore (.mscx, .mscz)
+   */
+  static isMusicXMLFile(file: File): boolean {
+    return MUSICXML_FILE.test(file.name);
+  }
+
+  /**
+   * MusicXML text of an uploaded file: .mxl and .mscz are unzipped, MuseScore scores converted
+   */
+  static async readMusicXMLFile(file: File): Promise<string> {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.mxl') || name.endsWith('.mscz')) return this.unpackScore(await file.arrayBuffer());
+    if (name.endsWith('.mscx')) return MscxConverter.toMusicXML(await file.text());
+    return file.text();
+  }
+
+  /**
+   * MusicXML text from a zipped score container: the root file named by
+   * META-INF/container.xml, or the first score file when there is none
    */
-  static async parseMusicXML(xmlContent: string): Promise<ParsedScore> {
+  static async unpackScore(buffer: ArrayBuffer): Promise<string> {
+    const files = await ZipReader.entries(buffer);
+    const container = files.get('META-INF/container.xml');
+    let rootPath = container && new DOMParser()
+      .parseFromString(ZipReader.text(container), 'text/xml')
+      .querySelector('rootfile')?.getAttribute('full-path');
+    if (!rootPath || !files.has(rootPath)) {
+      rootPath = Array.from(files.keys()).find(name => !name.startsWith('META-INF/') && /\.(xml|musicxml|mscx)$/i.test(name));
+    }
+    if (!rootPath) throw new Error('No score found in the archive');
+
+    const text = ZipReader.text(files.get(rootPath)!);
+    return rootPath.toLowerCase().endsWith('.mscx') ? MscxConverter.toMusicXML(text) : text;
+  }
+
+  /**
+   * Parts declared in <part-list>, with the voices and staves each one uses
+   */
+  static listParts(xmlContent: string): PartInfo[] {
+    const xmlDoc = new DOMParser().parseFromString(xmlContent, 'text/xml');
+
+    return Array.from(xmlDoc.querySelectorAll('part')).map((part, index) => {
+      const id = part.getAttribute('id') || `P${index + 1}`;
+      const scorePart = Array.from(xmlDoc.querySelectorAll('score-part')).find(p => p.getAttribute('id') === id);
+      const name = scorePart?.querySelector('part-name')?.textContent?.trim() || `Part ${index + 1}`;
+
+      const voices = new Set<string>();
+      part.querySelectorAll('note').forEach(note => {
+        voices.add(note.querySelector('voice')?.textContent?.trim() || '1');
+      });
+      const staves = Math.max(1, ...Array.from(part.querySelectorAll('staves')).map(s => parseInt(s.textContent || '1') || 1));
+
+      return { id, name, voices: Array.from(voices).sort(), staves };
+    });
+  }
+
+  /**
+   * Parse MusicXML content: one voice of one part as the melody,
+   * optionally with the other parts as accompaniment
+   */
+  static async parseMusicXML(xmlContent: string, options: MusicXMLOptions = {}): Promise<ParsedScore> {
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(xmlContent, 'text/xml');
 
@@ -59,43 +133,197 @@ export class MusicXMLParser {
       };
     }
 
-    // Extract notes from all measures
-    const measures = xmlDoc.querySelectorAll('measure');
-    measures.forEach(measure => {
-      const notes = measure.querySelectorAll('note');
-      notes.forEach(noteElement => {
-        // Skip rests
-        if (noteElement.querySelector('rest')) {
+    // Notes of the chosen part, in playback and written order
+    const parts = Array.from(xmlDoc.querySelectorAll('part'));
+    const part = parts.find(p => p.getAttribute('id') === options.partId) ?? parts[0];
+    if (part) {
+      const { notes, writtenNotes } = this.readPart(part, options.voice, options.staff);
+      score.notes = notes;
+      if (writtenNotes) score.writtenNotes = writtenNotes;
+    }
+
+    if (options.accompaniment && part) {
+      const names = this.listParts(xmlContent);
+      score.accompaniment = parts
+        .filter(p => p !== part)
+        .map((p): AccompanimentPart => ({
+          name: names.find(info => info.id === p.getAttribute('id'))?.name ?? 'Accompaniment',
+          ...this.readPart(p),
+        }))
+        .filter(p => p.notes.some(n => !n.rest));
+    }
+
+    return score;
+  }
+
+  /**
+   * One voice of a part in playback order, and in written order when repeats change it
+   */
+  private static readPart(part: Element, voice?: string, staff?: string): Pick<ParsedScore, 'notes' | 'writtenNotes'> {
+    const measures = this.readMeasures(part, voice, staff);
+    const notes = unrollMeasures(measures);
+    const written = measures.flatMap(measure => measure.notes);
+    return written.length !== notes.length ? { notes, writtenNotes: written } : { notes };
+  }
+
+  /**
+   * Notes and rests of one part, measure by measure, with durations in beats,
+   * repeat barlines, endings and D.C./D.S./Fine/Coda marks
+   * One voice is read (the given one, or the first on the staff): chord notes after the first,
+   * grace and cue notes are skipped, and tied notes are merged into one
+   */
+  private static readMeasures(part: Element, selectedVoice?: string, staff?: string): Measure[] {
+    const measures: Measure[] = [];
+    let divisions = 1;
+    let voice = selectedVoice;
+    let last: WesternNote | undefined;
+    let tieOpen = false;
+    let endings: number[] | undefined;
+    let codaSigns = 0;
+
+    part.querySelectorAll('measure').forEach(measureElement => {
+      const measure: Measure = { notes: [] };
+      let endingStops = false;
+
+      Array.from(measureElement.children).forEach(child => {
+        if (child.tagName === 'barline') {
+          const repeat = child.querySelector('repeat');
+          if (repeat?.getAttribute('direction') === 'forward') measure.repeatStart = true;
+          if (repeat?.getAttribute('direction') === 'backward') {
+            measure.repeatEnd = true;
+            const times = parseInt(repeat.getAttribute('times') || '');
+            if (times > 0) measure.repeatTimes = times;
+          }
+
+          const ending = child.querySelector('ending');
+          if (ending?.getAttribute('type') === 'start') {
+            endings = (ending.getAttribute('number') || '1').split(/[,\s]+/).map(n => parseInt(n)).filter(n => n > 0);
+          } else if (ending) {
+            endingStops = true;
+          }
+          return;
+        }
+
+        if (child.tagName === 'direction' || child.tagName === 'sound') {
+          codaSigns = this.readJumps(child, measure, codaSigns);
           return;
         }
 
-        const pitch = noteElement.querySelector('pitch');
-        if (pitch) {
-          const step = pitch.querySelector('step')?.textContent || 'C';
-          const alter = pitch.querySelector('alter')?.textContent;
-          const octave = parseInt(pitch.querySelector('octave')?.textContent || '4');
-          
-          const duration = parseInt(noteElement.querySelector('duration')?.textContent || '1');
-          const type = noteElement.querySelector('type')?.textContent || 'quarter';
-
-          // Handle alterations (sharps/flats)
-          let pitchName = step;
-          if (alter) {
-            const alterValue = parseInt(alter);
-            if (alterValue === 1) pitchName += '#';
-            else if (alterValue === -1) pitchName += 'b';
+        if (child.tagName === 'attributes') {
+          const value = parseFloat(child.querySelector('divisions')?.textContent || '');
+          if (value > 0) divisions = value;
+          return;
+        }
+
+        // <forward> in the voice being read is an invisible rest
+        if (child.tagName === 'forward') {
+          const forwardVoice = child.querySelector('voice')?.textContent?.trim();
+          if (forwardVoice && forwardVoice === voice) {
+            const duration = parseFloat(child.querySelector('duration')?.textContent || '0') / divisions;
+            last = { pitch: '', octave: 0, duration, rest: true };
+            measure.notes.push(last);
+            tieOpen = false;
           }
+          return;
+        }
+
+        if (child.tagName !== 'note') return;
+        if (child.querySelector('grace') || child.querySelector('cue') || child.querySelector('chord')) return;
 
-          score.notes.push({
-            pitch: pitchName,
-            octave,
-            duration: this.durationToBeat(type),
-          });
+        if (staff && (child.querySelector('staff')?.textContent?.trim() || '1') !== staff) return;
+        const noteVoice = child.querySelector('voice')?.textContent?.trim() || '1';
+        voice = voice ?? noteVoice;
+        if (noteVoice !== voice) return;
+
+        const duration = this.noteDuration(child, divisions);
+        const pitch = child.querySelector('pitch');
+
+        if (child.querySelector('rest') || !pitch) {
+          last = { pitch: '', octave: 0, duration, rest: true };
+          measure.notes.push(last);
+          tieOpen = false;
+          return;
         }
+
+        const step = pitch.querySelector('step')?.textContent?.trim() || 'C';
+        const alter = parseFloat(pitch.querySelector('alter')?.textContent || '0') || 0;
+        const octave = parseInt(pitch.querySelector('octave')?.textContent || '4');
+        const note: WesternNote = { pitch: spellPitch(step, alter), octave, duration };
+
+        const tieStop = child.querySelector('tie[type="stop"]') !== null;
+        if (tieOpen && tieStop && last && !last.rest &&
+            noteToMidi(last.pitch, last.octave) === noteToMidi(note.pitch, note.octave)) {
+          last.duration += duration;
+        } else {
+          measure.notes.push(note);
+          last = note;
+        }
+        tieOpen = child.querySelector('tie[type="start"]') !== null;
       });
+
+      if (endings) measure.endings = endings;
+      if (endingStops) endings = undefined;
+      measures.push(measure);
     });
 
-    return score;
+    return measures.map(measure => ({
+      ...measure,
+      notes: measure.notes.map(n => ({ ...n, duration: Math.round(n.duration * 1e6) / 1e6 })),
+    }));
+  }
+
+  /**
+   * Mark D.C., D.S., Fine, segno and coda from a <direction> or <sound>: the sound
+   * attributes when present, otherwise the segno/coda signs and words such as "D.C. al Fine".
+   * A coda sign is "To Coda" the first time and the coda itself the second.
+   * Returns the number of coda signs seen so far.
+   */
+  private static readJumps(element: Element, measure: Measure, codaSigns: number): number {
+    const sound = element.tagName === 'sound' ? element : element.querySelector('sound');
+    const has = (name: string) => !!sound?.hasAttribute(name);
+
+    if (has('dacapo') && sound!.getAttribute('dacapo') !== 'no') measure.daCapo = true;
+    if (has('dalsegno')) measure.dalSegno = true;
+    if (has('fine')) measure.fine = true;
+    if (has('segno')) measure.segno = true;
+    if (has('tocoda')) measure.toCoda = true;
+    if (has('coda')) measure.coda = true;
+    if (has('dacapo') || has('dalsegno') || has('fine') || has('segno') || has('tocoda') || has('coda')) {
+      return codaSigns + (has('tocoda') || has('coda') ? 1 : 0);
+    }
+
+    const words = Array.from(element.querySelectorAll('words')).map(w => w.textContent || '').join(' ');
+    if (/\b(d\.\s*c\.|da capo)/i.test(words)) measure.daCapo = true;
+    if (/\b(d\.\s*s\.|dal segno)/i.test(words)) measure.dalSegno = true;
+    if (/^\s*fine\s*$/i.test(words)) measure.fine = true;
+    if (element.querySelector('segno')) measure.segno = true;
+
+    const toCoda = /\bto\s+coda\b/i.test(words);
+    const codaTitle = /^\s*coda\s*$/i.test(words);
+    if (toCoda || codaTitle || element.querySelector('coda')) {
+      if (toCoda || (codaSigns === 0 && !codaTitle)) measure.toCoda = true;
+      else measure.coda = true;
+      return codaSigns + 1;
+    }
+    return codaSigns;
+  }
+
+  /**
+   * Duration of a note or rest in beats, from <duration> and the current <divisions>,
+   * or from its type, dots and tuplet ratio when <duration> is missing
+   */
+  private static noteDuration(noteElement: Element, divisions: number): number {
+    const duration = parseFloat(noteElement.querySelector('duration')?.textContent || '');
+    if (duration > 0) return duration / divisions;
+
+    let beats = this.durationToBeat(noteElement.querySelector('type')?.textContent?.trim() || 'quarter');
+    const dots = noteElement.querySelectorAll('dot').length;
+    beats *= 2 - 1 / 2 ** dots;
+
+    const actual = parseFloat(noteElement.querySelector('time-modification actual-notes')?.textContent || '');
+    const normal = parseFloat(noteElement.querySelector('time-modification normal-notes')?.textContent || '');
+    if (actual > 0 && normal > 0) beats *= normal / actual;
+    return beats;
   }
 
   /**
@@ -103,95 +331,31 @@ export class MusicXMLParser {
    */
   private static durationToBeat(type: string): number {
     const durations: Record<string, number> = {
+      'breve': 8,
       'whole': 4,
       'half': 2,
       'quarter': 1,
       'eighth': 0.5,
       '16th': 0.25,
       '32nd': 0.125,
+      '64th': 0.0625,
     };
     return durations[type] || 1;
   }
 
   /**
-   * Parse simple ABC notation (common format for folk music)
+   * Parse ABC notation (common format for folk music); see ABCParser for the supported subset
    */
   static parseABCNotation(abcContent: string): ParsedScore {
-    const score: ParsedScore = {
-      notes: [],
-    };
-
-    const lines = abcContent.split('\n');
-    let currentOctave = 4;
-
-    for (const line of lines) {
-      // Skip metadata lines
-      if (line.startsWith('X:') || line.startsWith('T:') || 
-          line.startsWith('M:') || line.startsWith('L:') ||
-          line.startsWith('K:')) {
-        
-        if (line.startsWith('T:')) {
-          score.title = line.substring(2).trim();
-        }
-        continue;
-      }
-
-      // Parse notes
-      const notePattern = /([_=\^]?)([A-Ga-g])([',]*)/g;
-      let match;
-
-      while ((match = notePattern.exec(line)) !== null) {
-        const [, accidental, note, octaveMarker] = match;
-        
-        let pitchName = note.toUpperCase();
-        
-        // Handle accidentals
-        if (accidental === '^') pitchName += '#';
-        else if (accidental === '_') pitchName += 'b';
-
-        // Handle octave markers
-        let octave = note === note.toLowerCase() ? 5 : 4;
-        octave += (octaveMarker.match(/'/g) || []).length;
-        octave -= (octaveMarker.match(/,/g) || []).length;
-
-        score.notes.push({
-          pitch: pitchName,
-          octave,
-          duration: 1, // ABC would need more parsing for duration
-        });
-      }
-    }
-
-    return score;
+    return ABCParser.parse(abcContent);
   }
 
   /**
-   * Parse a simple note sequence (for testing)
-   * Format: "C4 D4 E4 F4 G4" or "C4:1 D4:0.5 E4:0.5"
+   * Parse a simple note sequence, as typed in the note box
+   * Format: "C4 D4 E4 F4 G4", "C4:1 D4:0.5 E4:0.5" or with rests "C4 z:0.5 D4"
    */
   static parseSimpleSequence(sequence: string): ParsedScore {
-    const score: ParsedScore = {
-      notes: [],
-    };
-
-    const noteStrings = sequence.trim().split(/\s+/);
-    
-    for (const noteStr of noteStrings) {
-      const parts = noteStr.split(':');
-      const notePart = parts[0];
-      const duration = parts[1] ? parseFloat(parts[1]) : 1;
-
-      const match = notePart.match(/^([A-G][#b]?)(\d+)$/);
-      if (match) {
-        score.notes.push({
-          pitch: match[1],
-          octave: parseInt(match[2]),
-          duration,
-        });
-      }
-    }
-
-    return score;
+    return { notes: parseNoteSequence(sequence) };
   }
 }
 
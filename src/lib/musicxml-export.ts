@@ -0,0 +1,260 @@
+/**
+ * MusicXML export of Western notes (score-partwise, single part for the chosen instrument)
+ * Durations are in beats (quarter notes); notes crossing a barline are split and tied, rests just split
+ * With positions, each note carries its string and finger as technical marks and its swara as a lyric
+ */
+
+import { ExportPosition, ParsedScore, WesternNote } from '@/types';
+import { CarnaticConverter } from './carnatic-converter-correct';
+import { exportFileName } from './download';
+import { accidentalAlter, findInstrument } from './instrument';
+import { ragaSwaraNames } from './ragas';
+import { DEFAULT_SA_MIDI } from './shruti';
+import { SwaraExporter } from './swara-export';
+
+export interface MusicXMLExportOptions {
+  saMidi?: number; // Sa as a MIDI number, for swara lyrics (default D3)
+  ragaId?: string; // Overrides the raga stored with the score
+  swaras?: boolean; // Write each note's swara as a lyric
+  fingering?: boolean; // Write each note's string and finger as technical marks
+  instrumentId?: string; // Part name and string numbering (default violin)
+}
+
+// Note types by length in quarter notes, longest first (dotted values included)
+const NOTE_TYPES: Array<{ beats: number; type: string; dots: number }> = [
+  { beats: 6, type: 'whole', dots: 1 },
+  { beats: 4, type: 'whole', dots: 0 },
+  { beats: 3, type: 'half', dots: 1 },
+  { beats: 2, type: 'half', dots: 0 },
+  { beats: 1.5, type: 'quarter', dots: 1 },
+  { beats: 1, type: 'quarter', dots: 0 },
+  { beats: 0.75, type: 'eighth', dots: 1 },
+  { beats: 0.5, type: 'eighth', dots: 0 },
+  { beats: 0.375, type: '16th', dots: 1 },
+  { beats: 0.25, type: '16th', dots: 0 },
+  { beats: 0.125, type: '32nd', dots: 0 },
+];
+
+// Clefs by instrument; others use treble
+const CLEFS: Record<string, { sign: string; line: number }> = {
+  viola: { sign: 'C', line: 3 },
+  cello: { sign: 'F', line: 4 },
+};
+
+// Candidate divisions per quarter note; the first that makes every duration whole is used
+const DIVISIONS = [1, 2, 4, 8, 3, 6, 12, 24, 48, 96];
+
+interface NotePiece {
+  rest: boolean;
+  pitch: string;
+  octave: number;
+  duration: number; // In divisions
+  tieStart: boolean;
+  tieStop: boolean;
+  stringNumber?: number; // 1 is the highest string; only on the first piece of a note
+  finger?: number;
+  swara?: string;
+}
+
+type AnnotatedNote = WesternNote & Pick<NotePiece, 'stringNumber' | 'finger' | 'swara'>;
+
+export class MusicXMLExporter {
+  /**
+   * Render a score as a MusicXML 3.1 document; with positions, notes folded into range
+   * are written at the octave they are played in
+   */
+  static toMusicXML(
+    score: ParsedScore,
+    positions: (ExportPosition | null)[] = [],
+    options: MusicXMLExportOptions = {}
+  ): string {
+    const instrument = findInstrument(options.instrumentId);
+    const clef = CLEFS[instrument.id] ?? { sign: 'G', line: 2 };
+    const beats = score.timeSignature?.beats ?? 4;
+    const beatType = score.timeSignature?.beatType ?? 4;
+    const divisions = this.divisions(score.notes.map(n => n.duration || 1));
+    const measureLength = Math.round((beats * 4 / beatType) * divisions);
+
+    const measures = this.splitIntoMeasures(this.annotate(score, positions, options), divisions, measureLength);
+    const measureXml = measures.map((pieces, index) => {
+      const lines = [`    <measure number="${index + 1}">`];
+      if (index === 0) {
+        lines.push(
+          '      <attributes>',
+          `        <divisions>${divisions}</divisions>`,
+          '        <key><fifths>0</fifths></key>',
+          `        <time><beats>${beats}</beats><beat-type>${beatType}</beat-type></time>`,
+          `        <clef><sign>${clef.sign}</sign><line>${clef.line}</line></clef>`,
+          '      </attributes>'
+        );
+        if (score.tempo) {
+          lines.push(
+            '      <direction placement="above">',
+            '        <direction-type>',
+            `          <metronome><beat-unit>quarter</beat-unit><per-minute>${score.tempo}</per-minute></metronome>`,
+            '        </direction-type>',
+            `        <sound tempo="${score.tempo}"/>`,
+            '      </direction>'
+          );
+        }
+      }
+      pieces.forEach(piece => lines.push(...this.noteXml(piece, divisions)));
+      lines.push('    </measure>');
+      return lines.join('\n');
+    });
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+      '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 3.1 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+      '<score-partwise version="3.1">',
+      ...(score.title ? [`  <work><work-title>${this.escape(score.title)}</work-title></work>`] : []),
+      '  <identification>',
+      ...(score.composer ? [`    <creator type="composer">${this.escape(score.composer)}</creator>`] : []),
+      '    <encoding><software>Carnatic Violin Notation</software></encoding>',
+      '  </identification>',
+      '  <part-list>',
+      `    <score-part id="P1"><part-name>${instrument.name}</part-name></score-part>`,
+      '  </part-list>',
+      '  <part id="P1">',
+      ...measureXml,
+      '  </part>',
+      '</score-partwise>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Suggested file name for a MusicXML download
+   */
+  static fileName(score: ParsedScore): string {
+    return exportFileName(score, '.musicxml');
+  }
+
+  /**
+   * Notes at their played octave with the string, finger and swara to print on them
+   */
+  private static annotate(
+    score: ParsedScore,
+    positions: (ExportPosition | null)[],
+    options: MusicXMLExportOptions
+  ): AnnotatedNote[] {
+    const strings = findInstrument(options.instrumentId).strings;
+    const saMidi = options.saMidi ?? DEFAULT_SA_MIDI;
+    const names = ragaSwaraNames(options.ragaId ?? score.raga);
+
+    return score.notes.map((note, index) => {
+      const position = positions[index];
+      if (note.rest || !position) return note;
+
+      const octaveShift = position.octaveShift ?? 0;
+      const midi = CarnaticConverter.noteToMidi(note.pitch, note.octave) + octaveShift * 12;
+      const stringIndex = strings.indexOf(position.string);
+      return {
+        ...note,
+        octave: note.octave + octaveShift,
+        stringNumber: options.fingering && stringIndex >= 0 ? strings.length - stringIndex : undefined,
+        finger: options.fingering && position.string ? position.fingerPosition : undefined,
+        swara: options.swaras ? SwaraExporter.swaraLetter(midi, saMidi, names) : undefined,
+      };
+    });
+  }
+
+  /**
+   * Cut notes at barlines, tying the parts of a note that crosses one;
+   * fingering and swara go on the first part only
+   */
+  private static splitIntoMeasures(
+    notes: AnnotatedNote[],
+    divisions: number,
+    measureLength: number
+  ): NotePiece[][] {
+    const measures: NotePiece[][] = [[]];
+    let used = 0;
+
+    for (const note of notes) {
+      let remaining = Math.max(1, Math.round((note.duration || 1) * divisions));
+      let first = true;
+      while (remaining > 0) {
+        if (used === measureLength) {
+          measures.push([]);
+          used = 0;
+        }
+        const length = Math.min(remaining, measureLength - used);
+        remaining -= length;
+        measures[measures.length - 1].push({
+          rest: !!note.rest,
+          pitch: note.pitch,
+          octave: note.octave,
+          duration: length,
+          tieStop: !note.rest && !first,
+          tieStart: !note.rest && remaining > 0,
+          ...(first ? { stringNumber: note.stringNumber, finger: note.finger, swara: note.swara } : {}),
+        });
+        used += length;
+        first = false;
+      }
+    }
+
+    return measures;
+  }
+
+  private static noteXml(piece: NotePiece, divisions: number): string[] {
+    const step = piece.pitch[0];
+    const alter = accidentalAlter(piece.pitch);
+    const noteType = NOTE_TYPES.find(t => Math.round(t.beats * divisions) === piece.duration);
+
+    const lines = [
+      '      <note>',
+      ...(piece.rest ? ['        <rest/>'] : [
+        '        <pitch>',
+        `          <step>${step}</step>`,
+        ...(alter ? [`          <alter>${alter}</alter>`] : []),
+        `          <octave>${piece.octave}</octave>`,
+        '        </pitch>',
+      ]),
+      `        <duration>${piece.duration}</duration>`,
+    ];
+    if (piece.tieStop) lines.push('        <tie type="stop"/>');
+    if (piece.tieStart) lines.push('        <tie type="start"/>');
+    if (noteType) {
+      lines.push(`        <type>${noteType.type}</type>`);
+      for (let i = 0; i < noteType.dots; i++) lines.push('        <dot/>');
+    }
+    const technical = piece.finger !== undefined || piece.stringNumber !== undefined;
+    if (piece.tieStop || piece.tieStart || technical) {
+      lines.push('        <notations>');
+      if (piece.tieStop) lines.push('          <tied type="stop"/>');
+      if (piece.tieStart) lines.push('          <tied type="start"/>');
+      if (technical) {
+        lines.push('          <technical>');
+        if (piece.finger !== undefined) lines.push(`            <fingering>${piece.finger}</fingering>`);
+        if (piece.stringNumber !== undefined) lines.push(`            <string>${piece.stringNumber}</string>`);
+        lines.push('          </technical>');
+      }
+      lines.push('        </notations>');
+    }
+    if (piece.swara) {
+      lines.push(
+        '        <lyric number="1">',
+        '          <syllabic>single</syllabic>',
+        `          <text>${this.escape(piece.swara)}</text>`,
+        '        </lyric>'
+      );
+    }
+    lines.push('      </note>');
+    return lines;
+  }
+
+  private static divisions(durations: number[]): number {
+    const whole = (d: number) => Math.abs(d - Math.round(d)) < 1e-3;
+    return DIVISIONS.find(div => durations.every(d => whole(d * div))) ?? DIVISIONS[DIVISIONS.length - 1];
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,341 @@
+/**
+ * Printable bilingual sheet: each line shows the Western pitches with the swara, string and
+ * finger underneath, laid out by tala (anga bars, avartanam double bars), under a title and
+ * composer header, with page breaks on A4
+ * The same page layout renders to SVG or to a self-contained PDF, so nothing leaves the browser
+ */
+
+import { ExportPosition, ParsedScore } from '@/types';
+import { CarnaticConverter } from './carnatic-converter-correct';
+import { exportFileName } from './download';
+import { InstrumentProfile, VIOLIN } from './instrument';
+import { findRaga, ragaSwaraNames } from './ragas';
+import { DEFAULT_SA_MIDI, getShrutiOption } from './shruti';
+import { Tala, angaStarts, findTala, placeInTala, talaBeats, talaFromTimeSignature } from './talas';
+
+export interface PrintSheetOptions {
+  saMidi?: number; // Sa as a MIDI number (default D3)
+  ragaId?: string; // Overrides the raga stored with the score
+  tala?: Tala; // Overrides the tala stored with the score
+  instrument?: InstrumentProfile; // String names and colors (default violin)
+}
+
+// A4 portrait, in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 40;
+const HEADER_HEIGHT = 64; // Title, composer and details on the first page
+const FOOTER_HEIGHT = 16;
+
+const ROWS = ['Note', 'Swara', 'String', 'Finger'];
+const LABEL_WIDTH = 40;
+const ROW_HEIGHT = 15;
+const LINE_GAP = 18;
+const LINE_HEIGHT = ROWS.length * ROW_HEIGHT + LINE_GAP;
+const MIN_NOTE_WIDTH = 26; // Room for the shortest note's labels
+const FONT_SIZE = 9;
+
+const GREY = '#6b7280';
+const RULE = '#d1d5db';
+
+type Shape =
+  | { kind: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; anchor?: 'start' | 'middle' | 'end'; color?: string }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; width: number; color?: string }
+  | { kind: 'dot'; x: number; y: number; r: number };
+
+export class PrintSheet {
+  /**
+   * All pages as one SVG document, stacked top to bottom
+   */
+  static toSVG(score: ParsedScore, positions: (ExportPosition | null)[] = [], options: PrintSheetOptions = {}): string {
+    const pages = this.layout(score, positions, options);
+    const gap = 24;
+    const height = pages.length * PAGE_HEIGHT + (pages.length - 1) * gap;
+
+    const body = pages.map((shapes, index) =>
+      `<g transform="translate(0 ${fixed(index * (PAGE_HEIGHT + gap))})">` +
+      `<rect width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" fill="#ffffff" stroke="${RULE}"/>` +
+      shapes.map(shape => this.svgShape(shape)).join('') +
+      '</g>'
+    );
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}pt" height="${fixed(height)}pt" ` +
+        `viewBox="0 0 ${PAGE_WIDTH} ${fixed(height)}" font-family="Helvetica, Arial, sans-serif">`,
+      ...body,
+      '</svg>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * All pages as a PDF 1.4 document using the built-in Helvetica fonts
+   */
+  static toPDF(score: ParsedScore, positions: (ExportPosition | null)[] = [], options: PrintSheetOptions = {}): Uint8Array {
+    const pages = this.layout(score, positions, options);
+    // Catalog, page tree and two fonts come first, then a page and its content for each page
+    const pageObject = (index: number) => 5 + index * 2;
+
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageObject(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+    pages.forEach((shapes, index) => {
+      const content = shapes.map(shape => this.pdfShape(shape)).join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageObject(index) + 1} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    // Every character is one byte (WinAnsi), so string lengths are byte offsets
+    let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets = objects.map((object, index) => {
+      const offset = pdf.length;
+      pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return Uint8Array.from(pdf, c => c.charCodeAt(0) & 0xff);
+  }
+
+  /**
+   * Suggested file name for a downloaded sheet
+   */
+  static fileName(score: ParsedScore, extension: 'pdf' | 'svg'): string {
+    return exportFileName(score, `-sheet.${extension}`);
+  }
+
+  /**
+   * Shapes for each page: header, lines of notes grouped by avartanam, page numbers
+   */
+  private static layout(score: ParsedScore, positions: (ExportPosition | null)[], options: PrintSheetOptions): Shape[][] {
+    const saMidi = options.saMidi ?? DEFAULT_SA_MIDI;
+    const ragaId = options.ragaId ?? score.raga;
+    const names = ragaSwaraNames(ragaId);
+    const instrument = options.instrument ?? VIOLIN;
+    const tala = options.tala ?? findTala(score.tala) ?? talaFromTimeSignature(score.timeSignature?.beats);
+    const cycle = talaBeats(tala);
+    const angas = angaStarts(tala);
+
+    // As many avartanams per line as fit with the shortest note still readable
+    const durations = score.notes.map(n => n.duration || 1);
+    const available = PAGE_WIDTH - 2 * MARGIN - LABEL_WIDTH;
+    const shortest = Math.min(1, ...durations);
+    const cyclesPerLine = Math.max(1, Math.floor(available / (cycle * MIN_NOTE_WIDTH / shortest)));
+    const beatWidth = available / (cycle * cyclesPerLine);
+    const left = MARGIN + LABEL_WIDTH;
+
+    const placements = placeInTala(durations, tala);
+    const lineCount = placements.length ? Math.floor(placements[placements.length - 1].avartanam / cyclesPerLine) + 1 : 0;
+    const lastCycle = placements.length ? placements[placements.length - 1].avartanam : -1;
+
+    const pages: Shape[][] = [this.header(score, tala, saMidi, ragaId, instrument)];
+    let y = MARGIN + HEADER_HEIGHT;
+
+    for (let line = 0; line < lineCount; line++) {
+      if (y + LINE_HEIGHT > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+        pages.push(score.title ? [{ kind: 'text', x: MARGIN, y: MARGIN - 14, text: score.title, size: 8, color: GREY }] : []);
+        y = MARGIN;
+      }
+      const shapes = pages[pages.length - 1];
+      const bottom = y + ROWS.length * ROW_HEIGHT;
+
+      // Row labels and rules
+      ROWS.forEach((label, row) => {
+        shapes.push({ kind: 'text', x: MARGIN, y: y + (row + 1) * ROW_HEIGHT - 4, text: label, size: 7, color: GREY });
+      });
+      [y, bottom].forEach(ruleY => shapes.push({ kind: 'line', x1: left, y1: ruleY, x2: left + available, y2: ruleY, width: 0.4, color: RULE }));
+
+      // Anga bars, with a double bar closing each avartanam
+      const firstCycle = line * cyclesPerLine;
+      for (let c = 0; c < cyclesPerLine && firstCycle + c <= lastCycle; c++) {
+        angas.forEach((start, a) => {
+          if (a === 0 && c > 0) return;
+          const x = left + (c * cycle + start) * beatWidth;
+          shapes.push({ kind: 'line', x1: x, y1: y, x2: x, y2: bottom, width: a === 0 ? 0.8 : 0.5 });
+        });
+        const end = left + (c + 1) * cycle * beatWidth;
+        shapes.push(
+          { kind: 'line', x1: end - 2.5, y1: y, x2: end - 2.5, y2: bottom, width: 0.6 },
+          { kind: 'line', x1: end, y1: y, x2: end, y2: bottom, width: 1.2 }
+        );
+      }
+
+      score.notes.forEach((note, index) => {
+        const placement = placements[index];
+        if (Math.floor(placement.avartanam / cyclesPerLine) !== line) return;
+        const x = left + ((placement.avartanam - firstCycle) * cycle + placement.beat) * beatWidth + 3;
+        const baseline = (row: number) => y + (row + 1) * ROW_HEIGHT - 4;
+        const width = Math.min(durations[index], (firstCycle + cyclesPerLine) * cycle - placement.avartanam * cycle - placement.beat) * beatWidth;
+
+        // Karvai commas on each further beat the note (or rest) holds
+        for (let beat = 1; beat < durations[index] - 1e-6 && beat * beatWidth < width; beat++) {
+          shapes.push({ kind: 'text', x: x + beat * beatWidth, y: baseline(1), text: ',', size: FONT_SIZE });
+        }
+
+        if (note.rest) {
+          shapes.push({ kind: 'text', x, y: baseline(0), text: '-', size: FONT_SIZE });
+          shapes.push({ kind: 'text', x, y: baseline(1), text: '-', size: FONT_SIZE });
+          return;
+        }
+
+        const position = positions[index];
+        const octaveShift = position?.octaveShift ?? 0;
+        const midi = CarnaticConverter.noteToMidi(note.pitch, note.octave) + octaveShift * 12;
+        shapes.push({ kind: 'text', x, y: baseline(0), text: `${note.pitch}${note.octave + octaveShift}`, size: FONT_SIZE, bold: true });
+        shapes.push({ kind: 'line', x1: x - 1, y1: baseline(0) + 2.5, x2: x - 4 + width, y2: baseline(0) + 2.5, width: 0.5, color: RULE });
+
+        // Swara with a dot above per tara octave and below per mandra octave
+        const offset = midi - saMidi;
+        const swara = names[((offset % 12) + 12) % 12];
+        const sthayi = Math.floor(offset / 12);
+        shapes.push({ kind: 'text', x, y: baseline(1), text: swara, size: FONT_SIZE });
+        const dotX = x + textWidth(swara[0], FONT_SIZE) / 2;
+        for (let i = 0; i < Math.min(Math.abs(sthayi), 2); i++) {
+          const dotY = sthayi > 0 ? baseline(1) - FONT_SIZE - 1.5 - i * 2.5 : baseline(1) + 2.5 + i * 2.5;
+          shapes.push({ kind: 'dot', x: dotX, y: dotY, r: 0.8 });
+        }
+
+        if (position?.string) {
+          shapes.push({ kind: 'text', x, y: baseline(2), text: position.string, size: FONT_SIZE, bold: true, color: instrument.colors[position.string] });
+          shapes.push({ kind: 'text', x, y: baseline(3), text: String(position.fingerPosition), size: FONT_SIZE });
+        } else {
+          shapes.push({ kind: 'text', x, y: baseline(2), text: 'x', size: FONT_SIZE, color: '#dc2626' });
+        }
+      });
+
+      y += LINE_HEIGHT;
+    }
+
+    pages.forEach((shapes, index) => {
+      shapes.push({
+        kind: 'text',
+        x: PAGE_WIDTH / 2,
+        y: PAGE_HEIGHT - MARGIN + 12,
+        text: `${index + 1} / ${pages.length}`,
+        size: 8,
+        anchor: 'middle',
+        color: GREY,
+      });
+    });
+    return pages;
+  }
+
+  /**
+   * Title, composer and the raga, tala, Sa and instrument the sheet was written for
+   */
+  private static header(score: ParsedScore, tala: Tala, saMidi: number, ragaId: string | undefined, instrument: InstrumentProfile): Shape[] {
+    const details = [
+      findRaga(ragaId) ? `Raga ${findRaga(ragaId)!.name}` : undefined,
+      `Tala ${tala.name}`,
+      `Sa = ${getShrutiOption(saMidi).western}`,
+      instrument.name,
+      score.tempo ? `Tempo ${score.tempo}` : undefined,
+    ].filter(Boolean).join('  ·  ');
+
+    return [
+      { kind: 'text', x: PAGE_WIDTH / 2, y: MARGIN + 8, text: score.title || 'Untitled', size: 18, bold: true, anchor: 'middle' },
+      ...(score.composer ? [{ kind: 'text' as const, x: PAGE_WIDTH - MARGIN, y: MARGIN + 28, text: score.composer, size: 10, anchor: 'end' as const }] : []),
+      { kind: 'text', x: MARGIN, y: MARGIN + 28, text: details, size: 9, color: GREY },
+      { kind: 'line', x1: MARGIN, y1: MARGIN + 36, x2: PAGE_WIDTH - MARGIN, y2: MARGIN + 36, width: 0.6 },
+    ];
+  }
+
+  private static svgShape(shape: Shape): string {
+    if (shape.kind === 'line') {
+      return `<line x1="${fixed(shape.x1)}" y1="${fixed(shape.y1)}" x2="${fixed(shape.x2)}" y2="${fixed(shape.y2)}" ` +
+        `stroke="${shape.color ?? '#000000'}" stroke-width="${shape.width}"/>`;
+    }
+    if (shape.kind === 'dot') {
+      return `<circle cx="${fixed(shape.x)}" cy="${fixed(shape.y)}" r="${shape.r}" fill="#000000"/>`;
+    }
+    return `<text x="${fixed(shape.x)}" y="${fixed(shape.y)}" font-size="${shape.size}"` +
+      (shape.bold ? ' font-weight="bold"' : '') +
+      (shape.anchor && shape.anchor !== 'start' ? ` text-anchor="${shape.anchor}"` : '') +
+      ` fill="${shape.color ?? '#000000'}">${escapeXml(shape.text)}</text>`;
+  }
+
+  /**
+   * PDF content operators for a shape; PDF measures y up from the bottom of the page
+   */
+  private static pdfShape(shape: Shape): string {
+    const flip = (y: number) => fixed(PAGE_HEIGHT - y);
+    if (shape.kind === 'line') {
+      return `${pdfColor(shape.color ?? '#000000', 'RG')} ${shape.width} w ${fixed(shape.x1)} ${flip(shape.y1)} m ${fixed(shape.x2)} ${flip(shape.y2)} l S`;
+    }
+    if (shape.kind === 'dot') {
+      // A circle from four Bezier quarter arcs
+      const { x, r } = shape;
+      const y = PAGE_HEIGHT - shape.y;
+      const k = r * 0.5523;
+      return `0 0 0 rg ${fixed(x + r)} ${fixed(y)} m ` +
+        `${fixed(x + r)} ${fixed(y + k)} ${fixed(x + k)} ${fixed(y + r)} ${fixed(x)} ${fixed(y + r)} c ` +
+        `${fixed(x - k)} ${fixed(y + r)} ${fixed(x - r)} ${fixed(y + k)} ${fixed(x - r)} ${fixed(y)} c ` +
+        `${fixed(x - r)} ${fixed(y - k)} ${fixed(x - k)} ${fixed(y - r)} ${fixed(x)} ${fixed(y - r)} c ` +
+        `${fixed(x + k)} ${fixed(y - r)} ${fixed(x + r)} ${fixed(y - k)} ${fixed(x + r)} ${fixed(y)} c f`;
+    }
+    const width = textWidth(shape.text, shape.size, shape.bold);
+    const x = shape.anchor === 'middle' ? shape.x - width / 2 : shape.anchor === 'end' ? shape.x - width : shape.x;
+    return `${pdfColor(shape.color ?? '#000000', 'rg')} BT /${shape.bold ? 'F2' : 'F1'} ${shape.size} Tf ` +
+      `${fixed(x)} ${flip(shape.y)} Td (${pdfText(shape.text)}) Tj ET`;
+  }
+}
+
+function fixed(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Approximate Helvetica advance width, for centering and right-aligning PDF text
+ */
+function textWidth(text: string, size: number, bold = false): number {
+  let em = 0;
+  for (const c of text) {
+    if (' il.,:;|!\'-'.includes(c)) em += 0.28;
+    else if ('mwMW'.includes(c)) em += 0.83;
+    else if (/[A-Z]/.test(c)) em += 0.67;
+    else if (/[0-9#]/.test(c)) em += 0.556;
+    else em += 0.52;
+  }
+  return em * size * (bold ? 1.05 : 1);
+}
+
+function pdfColor(hex: string, operator: 'rg' | 'RG'): string {
+  const value = parseInt(hex.slice(1), 16);
+  const channel = (shift: number) => fixed(((value >> shift) & 0xff) / 255);
+  return `${channel(16)} ${channel(8)} ${channel(0)} ${operator}`;
+}
+
+// WinAnsi codes for the common punctuation outside Latin-1
+const WIN_ANSI: Record<string, number> = {
+  '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '…': 0x85,
+};
+
+/**
+ * A string literal for the WinAnsi-encoded fonts; letters they lack lose their accents
+ * (ā becomes a), anything else becomes "?"
+ */
+function pdfText(text: string): string {
+  const winAnsi = (c: string): number | undefined => {
+    const code = c.charCodeAt(0);
+    return WIN_ANSI[c] ?? (c.length === 1 && code < 0x100 && (code < 0x80 || code >= 0xa0) ? code : undefined);
+  };
+  return Array.from(text.normalize('NFC'), c => {
+    const byte = winAnsi(c) ?? winAnsi(c.normalize('NFD').replace(/[\u0300-\u036f]/g, '')) ?? 0x3f;
+    const char = String.fromCharCode(byte);
+    return char === '(' || char === ')' || char === '\\' ? `\\${char}` : char;
+  }).join('');
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
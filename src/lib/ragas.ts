@@ -0,0 +1,200 @@
+/**
+ * Raga catalogue: all 72 melakartas plus common janya ragas
+ * Used to pick the correct swarasthana name for enharmonic semitones
+ * (e.g. 2 semitones above Sa is Ri2 in Mohanam but Ga1 in Kanakangi)
+ */
+
+import { SWARA_NAMES } from './shruti';
+
+export type Swarasthana =
+  | 'Sa' | 'Ri1' | 'Ri2' | 'Ri3' | 'Ga1' | 'Ga2' | 'Ga3' | 'Ma1' | 'Ma2'
+  | 'Pa' | 'Dha1' | 'Dha2' | 'Dha3' | 'Ni1' | 'Ni2' | 'Ni3';
+
+// Semitones above Sa for each swarasthana
+export const SWARASTHANA_SEMITONES: Record<Swarasthana, number> = {
+  Sa: 0,
+  Ri1: 1, Ri2: 2, Ri3: 3,
+  Ga1: 2, Ga2: 3, Ga3: 4,
+  Ma1: 5, Ma2: 6,
+  Pa: 7,
+  Dha1: 8, Dha2: 9, Dha3: 10,
+  Ni1: 9, Ni2: 10, Ni3: 11,
+};
+
+export interface Raga {
+  id: string;
+  name: string;
+  melakarta: number; // Own number for melakartas, parent number for janyas
+  janya: boolean;
+  swaras: Swarasthana[]; // Distinct swaras used, Sa first
+  arohana: Swarasthana[];
+  avarohana: Swarasthana[];
+}
+
+const MELAKARTA_NAMES = [
+  'Kanakangi', 'Ratnangi', 'Ganamurti', 'Vanaspati', 'Manavati', 'Tanarupi',
+  'Senavati', 'Hanumatodi', 'Dhenuka', 'Natakapriya', 'Kokilapriya', 'Rupavati',
+  'Gayakapriya', 'Vakulabharanam', 'Mayamalavagowla', 'Chakravakam', 'Suryakantam', 'Hatakambari',
+  'Jhankaradhvani', 'Natabhairavi', 'Keeravani', 'Kharaharapriya', 'Gourimanohari', 'Varunapriya',
+  'Mararanjani', 'Charukesi', 'Sarasangi', 'Harikambhoji', 'Dheerasankarabharanam', 'Naganandini',
+  'Yagapriya', 'Ragavardhini', 'Gangeyabhushani', 'Vagadheeswari', 'Shulini', 'Chalanata',
+  'Salagam', 'Jalarnavam', 'Jhalavarali', 'Navaneetam', 'Pavani', 'Raghupriya',
+  'Gavambhodi', 'Bhavapriya', 'Shubhapantuvarali', 'Shadvidamargini', 'Suvarnangi', 'Divyamani',
+  'Dhavalambari', 'Namanarayani', 'Kamavardhini', 'Ramapriya', 'Gamanashrama', 'Vishwambari',
+  'Shyamalangi', 'Shanmukhapriya', 'Simhendramadhyamam', 'Hemavati', 'Dharmavati', 'Neetimati',
+  'Kantamani', 'Rishabhapriya', 'Latangi', 'Vachaspati', 'Mechakalyani', 'Chitrambari',
+  'Sucharitra', 'Jyotiswarupini', 'Dhatuvardhani', 'Nasikabhushani', 'Kosalam', 'Rasikapriya',
+];
+
+// Ri/Ga pairs by chakra, and Dha/Ni pairs within each chakra
+const RI_GA: Array<[Swarasthana, Swarasthana]> = [
+  ['Ri1', 'Ga1'], ['Ri1', 'Ga2'], ['Ri1', 'Ga3'], ['Ri2', 'Ga2'], ['Ri2', 'Ga3'], ['Ri3', 'Ga3'],
+];
+const DHA_NI: Array<[Swarasthana, Swarasthana]> = [
+  ['Dha1', 'Ni1'], ['Dha1', 'Ni2'], ['Dha1', 'Ni3'], ['Dha2', 'Ni2'], ['Dha2', 'Ni3'], ['Dha3', 'Ni3'],
+];
+
+const SHORT_NAMES: Record<string, Swarasthana> = {
+  S: 'Sa', R1: 'Ri1', R2: 'Ri2', R3: 'Ri3', G1: 'Ga1', G2: 'Ga2', G3: 'Ga3',
+  M1: 'Ma1', M2: 'Ma2', P: 'Pa', D1: 'Dha1', D2: 'Dha2', D3: 'Dha3', N1: 'Ni1', N2: 'Ni2', N3: 'Ni3',
+};
+
+/**
+ * Parse a compact scale like "S R2 G3 P D2 S"
+ */
+function scale(text: string): Swarasthana[] {
+  return text.split(' ').map(s => SHORT_NAMES[s]);
+}
+
+/**
+ * Distinct swaras of an arohana/avarohana pair, ordered by pitch
+ */
+function distinctSwaras(arohana: Swarasthana[], avarohana: Swarasthana[]): Swarasthana[] {
+  return Array.from(new Set([...arohana, ...avarohana]))
+    .sort((a, b) => SWARASTHANA_SEMITONES[a] - SWARASTHANA_SEMITONES[b]);
+}
+
+function melakarta(number: number): Raga {
+  const index = (number - 1) % 36;
+  const [ri, ga] = RI_GA[Math.floor(index / 6)];
+  const [dha, ni] = DHA_NI[index % 6];
+  const ma: Swarasthana = number <= 36 ? 'Ma1' : 'Ma2';
+  const swaras: Swarasthana[] = ['Sa', ri, ga, ma, 'Pa', dha, ni];
+
+  return {
+    id: `mela-${number}`,
+    name: MELAKARTA_NAMES[number - 1],
+    melakarta: number,
+    janya: false,
+    swaras,
+    arohana: [...swaras, 'Sa'],
+    avarohana: ['Sa', ...[...swaras].reverse()],
+  };
+}
+
+export const MELAKARTAS: Raga[] = MELAKARTA_NAMES.map((_, i) => melakarta(i + 1));
+
+function janya(name: string, parent: number, arohana: string, avarohana: string): Raga {
+  const aro = scale(arohana);
+  const ava = scale(avarohana);
+  return {
+    id: name.toLowerCase().replace(/\s+/g, '-'),
+    name,
+    melakarta: parent,
+    janya: true,
+    swaras: distinctSwaras(aro, ava),
+    arohana: aro,
+    avarohana: ava,
+  };
+}
+
+export const JANYA_RAGAS: Raga[] = [
+  janya('Abhogi', 22, 'S R2 G2 M1 D2 S', 'S D2 M1 G2 R2 S'),
+  janya('Amritavarshini', 66, 'S G3 M2 P N3 S', 'S N3 P M2 G3 S'),
+  janya('Anandabhairavi', 20, 'S G2 R2 G2 M1 P D2 P S', 'S N2 D2 P M1 G2 R2 S'),
+  janya('Arabhi', 29, 'S R2 M1 P D2 S', 'S N3 D2 P M1 G3 R2 S'),
+  janya('Bilahari', 29, 'S R2 G3 P D2 S', 'S N3 D2 P M1 G3 R2 S'),
+  janya('Bowli', 15, 'S R1 G3 P D1 S', 'S N3 D1 P G3 R1 S'),
+  janya('Dhanyasi', 8, 'S G2 M1 P N2 S', 'S N2 D1 P M1 G2 R1 S'),
+  janya('Gambhiranata', 36, 'S G3 M1 P N3 S', 'S N3 P M1 G3 S'),
+  janya('Hamsadhwani', 29, 'S R2 G3 P N3 S', 'S N3 P G3 R2 S'),
+  janya('Hamsanadam', 60, 'S R2 M2 P N3 S', 'S N3 P M2 R2 S'),
+  janya('Hindolam', 20, 'S G2 M1 D1 N2 S', 'S N2 D1 M1 G2 S'),
+  janya('Kadanakuthuhalam', 29, 'S R2 M1 D2 N3 G3 P S', 'S N3 D2 P M1 G3 R2 S'),
+  janya('Kalyanavasantham', 21, 'S G2 M1 P D1 N3 S', 'S N3 D1 P M1 G2 R2 S'),
+  janya('Kambhoji', 28, 'S R2 G3 M1 P D2 S', 'S N2 D2 P M1 G3 R2 S'),
+  janya('Kedaragowla', 28, 'S R2 M1 P N2 S', 'S N2 D2 P M1 G3 R2 S'),
+  janya('Khamas', 28, 'S M1 G3 M1 P D2 N2 S', 'S N2 D2 P M1 G3 R2 S'),
+  janya('Madhyamavati', 22, 'S R2 M1 P N2 S', 'S N2 P M1 R2 S'),
+  janya('Malahari', 15, 'S R1 M1 P D1 S', 'S D1 P M1 G3 R1 S'),
+  janya('Mohanam', 28, 'S R2 G3 P D2 S', 'S D2 P G3 R2 S'),
+  janya('Mukhari', 22, 'S R2 M1 P N2 D2 S', 'S N2 D1 P M1 G2 R2 S'),
+  janya('Nattai', 36, 'S R3 G3 M1 P D3 N3 S', 'S N3 P M1 R3 S'),
+  janya('Ranjani', 59, 'S R2 G2 M2 D2 S', 'S N3 D2 M2 G2 S R2 G2 S'),
+  janya('Revagupti', 15, 'S R1 G3 P D1 S', 'S D1 P G3 R1 S'),
+  janya('Revati', 2, 'S R1 M1 P N2 S', 'S N2 P M1 R1 S'),
+  janya('Sahana', 28, 'S R2 G3 M1 P M1 D2 N2 S', 'S N2 D2 P M1 G3 M1 R2 G3 R2 S'),
+  janya('Saveri', 15, 'S R1 M1 P D1 S', 'S N3 D1 P M1 G3 R1 S'),
+  janya('Sri', 22, 'S R2 M1 P N2 S', 'S N2 P D2 N2 P M1 R2 G2 R2 S'),
+  janya('Sriranjani', 22, 'S R2 G2 M1 D2 N2 S', 'S N2 D2 M1 G2 R2 S'),
+  janya('Suddha Dhanyasi', 22, 'S G2 M1 P N2 S', 'S N2 P M1 G2 S'),
+  janya('Suddha Saveri', 29, 'S R2 M1 P D2 S', 'S D2 P M1 R2 S'),
+  janya('Valaji', 28, 'S G3 P D2 N2 S', 'S N2 D2 P G3 S'),
+  janya('Vasanta', 17, 'S M1 G3 M1 D1 N3 S', 'S N3 D1 M1 G3 R1 S'),
+  janya('Yadukula Kambhoji', 28, 'S R2 M1 P D2 S', 'S N2 D2 P M1 G3 R2 S'),
+];
+
+export const RAGAS: Raga[] = [...MELAKARTAS, ...JANYA_RAGAS];
+
+/**
+ * Look up a raga by id
+ */
+export function findRaga(id?: string): Raga | undefined {
+  return id ? RAGAS.find(r => r.id === id) : undefined;
+}
+
+/**
+ * Look up a raga by name, ignoring case and spacing (e.g. "suddha saveri")
+ */
+export function findRagaByName(name: string): Raga | undefined {
+  const key = name.trim().toLowerCase().replace(/\s+/g, '-');
+  return RAGAS.find(r => r.id === key || r.name.toLowerCase().replace(/\s+/g, '-') === key);
+}
+
+/**
+ * Swarasthana for a short name such as "R2" or "N3"
+ */
+export function parseSwarasthana(short: string): Swarasthana | undefined {
+  return SHORT_NAMES[short.toUpperCase()];
+}
+
+const namesCache = new Map<string, string[]>();
+
+/**
+ * Swara name for each of the 12 semitones above Sa in a raga
+ * Swaras outside the raga (anya swaras) take their name from the parent melakarta;
+ * without a raga the default chromatic names are used
+ */
+export function ragaSwaraNames(ragaId?: string): string[] {
+  const raga = findRaga(ragaId);
+  if (!raga) return SWARA_NAMES;
+
+  const cached = namesCache.get(raga.id);
+  if (cached) return cached;
+
+  const names = [...SWARA_NAMES];
+  for (const swara of [...MELAKARTAS[raga.melakarta - 1].swaras, ...raga.swaras]) {
+    names[SWARASTHANA_SEMITONES[swara]] = swara;
+  }
+
+  namesCache.set(raga.id, names);
+  return names;
+}
+
+/**
+ * Format an arohana/avarohana for display, e.g. "S R2 G3 P D2 S"
+ */
+export function formatScale(swaras: Swarasthana[]): string {
+  const short = Object.fromEntries(Object.entries(SHORT_NAMES).map(([k, v]) => [v, k]));
+  return swaras.map(s => short[s]).join(' ');
+}
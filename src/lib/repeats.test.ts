@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { Measure, unrollMeasures } from './repeats';
+import { MusicXMLParser } from './music-parser';
+import { WesternNote } from '@/types';
+
+// One-note measure named by its pitch, so the played order reads as a string of letters
+const bar = (pitch: string, marks: Omit<Measure, 'notes'> = {}): Measure => ({
+  notes: [{ pitch, octave: 4, duration: 1 }],
+  ...marks,
+});
+const order = (notes: WesternNote[]) => notes.map(n => n.pitch).join(' ');
+
+describe('unrollMeasures', () => {
+  it('plays a repeated section twice', () => {
+    const measures = [bar('C'), bar('D', { repeatStart: true }), bar('E', { repeatEnd: true }), bar('F')];
+
+    expect(order(unrollMeasures(measures))).toBe('C D E D E F');
+  });
+
+  it('plays a section as many times as the repeat asks', () => {
+    const measures = [bar('C', { repeatStart: true }), bar('D', { repeatEnd: true, repeatTimes: 3 }), bar('E')];
+
+    expect(order(unrollMeasures(measures))).toBe('C D C D C D E');
+  });
+
+  it('takes each numbered ending on its own pass', () => {
+    const measures = [
+      bar('C', { repeatStart: true }),
+      bar('D'),
+      bar('E', { endings: [1], repeatEnd: true }),
+      bar('F', { endings: [2] }),
+      bar('G'),
+    ];
+
+    expect(order(unrollMeasures(measures))).toBe('C D E C D F G');
+  });
+
+  it('goes back to the start on D.C. and ends at Fine', () => {
+    const measures = [bar('C'), bar('D', { fine: true }), bar('E'), bar('F', { daCapo: true })];
+
+    expect(order(unrollMeasures(measures))).toBe('C D E F C D');
+  });
+
+  it('plays only the last ending after a D.C.', () => {
+    const measures = [
+      bar('C', { repeatStart: true }),
+      bar('D', { endings: [1], repeatEnd: true }),
+      bar('E', { endings: [2], fine: true }),
+      bar('F', { daCapo: true }),
+    ];
+
+    expect(order(unrollMeasures(measures))).toBe('C D C E F C E');
+  });
+
+  it('goes back to the segno on D.S. and jumps to the coda', () => {
+    const measures = [
+      bar('C'),
+      bar('D', { segno: true }),
+      bar('E', { toCoda: true }),
+      bar('F', { dalSegno: true }),
+      bar('G', { coda: true }),
+    ];
+
+    expect(order(unrollMeasures(measures))).toBe('C D E F D E G');
+  });
+});
+
+describe('MusicXML repeats', () => {
+  const note = (step: string) =>
+    `<note><pitch><step>${step}</step><octave>4</octave></pitch><duration>1</duration><voice>1</voice></note>`;
+
+  it('reads repeat barlines, endings and D.C. al Fine into playback order', async () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <score-partwise version="3.1">
+        <part-list><score-part id="P1"><part-name>Violin</part-name></score-part></part-list>
+        <part id="P1">
+          <measure number="1">
+            <attributes><divisions>1</divisions></attributes>
+            <barline location="left"><repeat direction="forward"/></barline>
+            ${note('C')}
+          </measure>
+          <measure number="2">
+            <barline location="left"><ending number="1" type="start"/></barline>
+            ${note('D')}
+            <barline location="right"><ending number="1" type="stop"/><repeat direction="backward"/></barline>
+          </measure>
+          <measure number="3">
+            <barline location="left"><ending number="2" type="start"/></barline>
+            ${note('E')}
+            <direction><direction-type><words>Fine</words></direction-type></direction>
+            <barline location="right"><ending number="2" type="discontinue"/></barline>
+          </measure>
+          <measure number="4">
+            ${note('F')}
+            <direction><direction-type><words>D.C. al Fine</words></direction-type></direction>
+          </measure>
+        </part>
+      </score-partwise>`;
+
+    const score = await MusicXMLParser.parseMusicXML(xml);
+
+    expect(order(score.notes)).toBe('C D C E F C E');
+    expect(order(score.writtenNotes ?? [])).toBe('C D E F');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Repeat unrolling: measures with repeat signs, first/second endings and
+ * D.C./D.S. jumps (al Fine, al Coda) played out in performance order
+ */
+
+import { WesternNote } from '@/types';
+
+export interface Measure {
+  notes: WesternNote[];
+  repeatStart?: boolean; // |: before the measure
+  repeatEnd?: boolean; // :| after the measure
+  repeatTimes?: number; // Times the section is played (default 2)
+  endings?: number[]; // Volta passes this measure is played on, e.g. [1] or [1, 2]
+  segno?: boolean; // D.S. returns to the start of this measure
+  coda?: boolean; // The coda starts with this measure
+  toCoda?: boolean; // After a D.C./D.S., jump to the coda at the end of this measure
+  fine?: boolean; // After a D.C./D.S., the piece ends with this measure
+  daCapo?: boolean; // D.C. at the end of this measure
+  dalSegno?: boolean; // D.S. at the end of this measure
+}
+
+/**
+ * Notes in the order they are played: each repeated section twice (or once per
+ * numbered ending), taking on each pass only the endings marked for it.
+ * A D.C. or D.S. is taken once, after any repeat at the same barline; on the way
+ * back repeats are not taken again, only last endings are played, and Fine or
+ * To Coda apply.
+ */
+export function unrollMeasures(measures: Measure[]): WesternNote[] {
+  const notes: WesternNote[] = [];
+  let start = 0; // First measure of the section being repeated
+  let pass = 1;
+  let inEndings = false;
+  let jumped = false; // A D.C. or D.S. has been taken
+
+  for (let i = 0; i < measures.length; i++) {
+    const measure = measures[i];
+    if (measure.repeatStart && i !== start) {
+      start = i;
+      pass = 1;
+    }
+
+    if (measure.endings) {
+      inEndings = true;
+      const wanted = jumped ? lastEnding(measures, i) : pass;
+      if (!measure.endings.includes(wanted)) continue;
+    } else if (inEndings) {
+      // The first measure after the endings starts a new section
+      inEndings = false;
+      start = i;
+      pass = 1;
+    }
+
+    notes.push(...measure.notes);
+
+    if (jumped && measure.fine) break;
+    if (jumped && measure.toCoda) {
+      const coda = measures.findIndex((m, j) => j > i && m.coda);
+      if (coda !== -1) {
+        i = coda - 1;
+        start = coda;
+        inEndings = false;
+        continue;
+      }
+    }
+
+    if (measure.repeatEnd && !jumped) {
+      const again = measure.endings
+        ? hasEnding(measures, i, pass + 1)
+        : pass < (measure.repeatTimes ?? 2);
+      if (again) {
+        pass++;
+        inEndings = false;
+        i = start - 1;
+        continue;
+      }
+      if (!measure.endings) {
+        start = i + 1;
+        pass = 1;
+      }
+    }
+
+    if (!jumped && (measure.daCapo || measure.dalSegno)) {
+      const segno = measure.dalSegno ? measures.findIndex(m => m.segno) : -1;
+      jumped = true;
+      start = Math.max(segno, 0);
+      inEndings = false;
+      i = start - 1;
+    }
+  }
+
+  return notes;
+}
+
+/**
+ * Whether the run of ending measures from `from` onwards has one for `pass`
+ */
+function hasEnding(measures: Measure[], from: number, pass: number): boolean {
+  for (let i = from; i < measures.length && measures[i].endings; i++) {
+    if (measures[i].endings!.includes(pass)) return true;
+  }
+  return false;
+}
+
+/**
+ * Highest ending number in the run of ending measures around `index`
+ */
+function lastEnding(measures: Measure[], index: number): number {
+  let first = index;
+  while (first > 0 && measures[first - 1].endings) first--;
+  let highest = 0;
+  for (let i = first; i < measures.length && measures[i].endings; i++) {
+    highest = Math.max(highest, ...measures[i].endings!);
+  }
+  return highest;
+}
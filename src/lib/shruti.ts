@@ -0,0 +1,77 @@
+/**
+ * Shruti (tonic / Sa) selection and swara naming
+ * Every swara label is derived from the MIDI distance to the chosen Sa
+ */
+
+export interface ShrutiOption {
+  pitchClass: number; // 0 = C ... 11 = B
+  western: string; // pitch-pipe name, e.g. "C#"
+  kattai: string; // harmonium kattai, e.g. "1.5"
+  label: string;
+}
+
+// Pitch-pipe / kattai names for all twelve possible Sa values
+export const SHRUTI_OPTIONS: ShrutiOption[] = [
+  { pitchClass: 0, western: 'C', kattai: '1', label: 'C · 1 Kattai (White 1)' },
+  { pitchClass: 1, western: 'C#', kattai: '1.5', label: 'C# · 1½ Kattai (Black 1)' },
+  { pitchClass: 2, western: 'D', kattai: '2', label: 'D · 2 Kattai (White 2)' },
+  { pitchClass: 3, western: 'D#', kattai: '2.5', label: 'D# · 2½ Kattai (Black 2)' },
+  { pitchClass: 4, western: 'E', kattai: '3', label: 'E · 3 Kattai (White 3)' },
+  { pitchClass: 5, western: 'F', kattai: '4', label: 'F · 4 Kattai (White 4)' },
+  { pitchClass: 6, western: 'F#', kattai: '4.5', label: 'F# · 4½ Kattai (Black 3)' },
+  { pitchClass: 7, western: 'G', kattai: '5', label: 'G · 5 Kattai (White 5)' },
+  { pitchClass: 8, western: 'G#', kattai: '5.5', label: 'G# · 5½ Kattai (Black 4)' },
+  { pitchClass: 9, western: 'A', kattai: '6', label: 'A · 6 Kattai (White 6)' },
+  { pitchClass: 10, western: 'A#', kattai: '6.5', label: 'A# · 6½ Kattai (Black 5)' },
+  { pitchClass: 11, western: 'B', kattai: '7', label: 'B · 7 Kattai (White 7)' },
+];
+
+// Madhya sthayi Sa is placed in octave 3 (C3 = MIDI 48), matching the D3 default
+const MADHYA_OCTAVE_BASE = 48;
+
+// D3 = Middle Sa, the original D-string tonic
+export const DEFAULT_SA_MIDI = 50;
+
+// Default swarasthana names for each semitone above Sa
+export const SWARA_NAMES = [
+  'Sa', 'Ri1', 'Ri2', 'Ga2', 'Ga3', 'Ma1', 'Ma2', 'Pa', 'Dha1', 'Dha2', 'Ni2', 'Ni3',
+];
+
+/**
+ * MIDI number of madhya sthayi Sa for a pitch class
+ */
+export function saMidiFromPitchClass(pitchClass: number): number {
+  return MADHYA_OCTAVE_BASE + (((pitchClass % 12) + 12) % 12);
+}
+
+/**
+ * Find the shruti option matching a Sa MIDI number
+ */
+export function getShrutiOption(saMidi: number): ShrutiOption {
+  return SHRUTI_OPTIONS[((saMidi % 12) + 12) % 12];
+}
+
+/**
+ * Add the sthayi (octave) marking to a swara name
+ * Mandra sthayi gets a "Low" prefix, tara sthayi a "High" prefix and one dot per octave
+ */
+export function formatSwara(name: string, sthayi: number): string {
+  if (sthayi === 0) return name;
+  if (sthayi > 0) return `High ${name}${'.'.repeat(sthayi)}`;
+  return sthayi === -1 ? `Low ${name}` : `Lower ${name}`;
+}
+
+/**
+ * Swara name for a MIDI note relative to Sa, e.g. 57 with Sa 50 -> "Pa"
+ * `names` gives the name for each semitone (see ragaSwaraNames for raga-specific names)
+ */
+export function swaraName(
+  midiNote: number,
+  saMidi: number = DEFAULT_SA_MIDI,
+  names: string[] = SWARA_NAMES
+): string {
+  const offset = midiNote - saMidi;
+  const degree = ((offset % 12) + 12) % 12;
+  const sthayi = Math.floor(offset / 12);
+  return formatSwara(names[degree], sthayi);
+}
@@ -1,14 +1,29 @@
 import { create } from 'zustand';
-import { WesternNote, CarnaticPosition, PlaybackState } from '@/types';
+import { WesternNote, CarnaticPosition, PlaybackState, AccompanimentPart } from '@/types';
+import { DEFAULT_SA_MIDI } from '@/lib/shruti';
+import { InstrumentProfile, StringTuning, TuningProfile, findInstrument, findTuning, resolveTuning } from '@/lib/instrument';
+import { CarnaticConverter, ConversionIssue, ConversionOptions, RangeMode } from '@/lib/carnatic-converter-correct';
+import { DEFAULT_FINGERING_WEIGHTS, FingeringPin, FingeringWeights } from '@/lib/fingering-optimizer';
+import { ragaSwaraNames } from '@/lib/ragas';
+import { IntonationSystem } from '@/lib/intonation';
+import { Tala, findTala, talaFromTimeSignature } from '@/lib/talas';
 
 interface AppState {
   // Score data
   westernNotes: WesternNote[];
   carnaticPositions: (CarnaticPosition | null)[];
+  conversionReport: ConversionIssue[];
+  // Playback order (repeats unrolled) and written order of the loaded score, when they differ
+  scoreOrders: { played: WesternNote[]; written: WesternNote[] } | null;
+  // Other parts of the loaded score, played alongside it
+  accompaniment: AccompanimentPart[];
   scoreMetadata: {
     title?: string;
     composer?: string;
     tempo?: number;
+    timeSignature?: { beats: number; beatType: number };
+    raga?: string;
+    tala?: string;
   };
 
   // Playback state
@@ -16,14 +31,56 @@ interface AppState {
   currentIndex: number;
   tempo: number;
   loop: boolean;
+  followRepeats: boolean; // Play repeats and jumps, or the measures as written
+
+  // Shruti (MIDI number of madhya sthayi Sa)
+  saMidi: number;
+
+  // Raga used for swara naming (undefined = default chromatic names)
+  ragaId?: string;
+
+  // Playback tuning of each swara relative to Sa
+  intonation: IntonationSystem;
+
+  // Tala used for avartanam grouping (undefined = cycles of the time signature)
+  talaId?: string;
+  customTalas: Tala[];
+
+  // Instrument profile and its tuning
+  instrumentId: string;
+  tuningId: string;
+  customTunings: TuningProfile[];
+
+  // Fingering optimizer
+  fingeringWeights: FingeringWeights;
+  fingeringPins: Record<number, FingeringPin>;
+
+  // Out-of-range handling
+  rangeMode: RangeMode;
 
   // Actions
   setScore: (notes: WesternNote[], positions: (CarnaticPosition | null)[]) => void;
-  setMetadata: (metadata: { title?: string; composer?: string; tempo?: number }) => void;
+  loadScore: (notes: WesternNote[], writtenNotes?: WesternNote[], accompaniment?: AccompanimentPart[]) => void;
+  transposeScore: (transpose: (notes: WesternNote[]) => WesternNote[]) => void;
+  setMetadata: (metadata: AppState['scoreMetadata']) => void;
   setPlaybackState: (state: PlaybackState) => void;
   setCurrentIndex: (index: number) => void;
   setTempo: (tempo: number) => void;
   setLoop: (loop: boolean) => void;
+  setFollowRepeats: (followRepeats: boolean) => void;
+  setSaMidi: (saMidi: number) => void;
+  setRagaId: (ragaId?: string) => void;
+  setIntonation: (intonation: IntonationSystem) => void;
+  setTalaId: (talaId?: string) => void;
+  addCustomTala: (tala: Tala) => void;
+  removeCustomTala: (id: string) => void;
+  setInstrumentId: (instrumentId: string) => void;
+  setTuningId: (tuningId: string) => void;
+  addCustomTuning: (tuning: TuningProfile) => void;
+  removeCustomTuning: (id: string) => void;
+  setFingeringWeights: (weights: Partial<FingeringWeights>) => void;
+  setFingeringPin: (index: number, pin: FingeringPin | null) => void;
+  setRangeMode: (rangeMode: RangeMode) => void;
   reset: () => void;
   nextNote: () => void;
   previousNote: () => void;
@@ -32,21 +89,75 @@ interface AppState {
 export const useAppStore = create<AppState>((set, get) => ({
   westernNotes: [],
   carnaticPositions: [],
+  conversionReport: [],
+  scoreOrders: null,
+  accompaniment: [],
   scoreMetadata: {},
   
   playbackState: 'idle',
   currentIndex: 0,
   tempo: 120,
   loop: false,
+  followRepeats: true,
+
+  saMidi: DEFAULT_SA_MIDI,
+
+  intonation: 'equal',
+
+  customTalas: [],
+
+  instrumentId: 'violin',
+  tuningId: 'western',
+  customTunings: [],
+
+  fingeringWeights: DEFAULT_FINGERING_WEIGHTS,
+  fingeringPins: {},
+
+  rangeMode: 'marker',
 
   setScore: (notes, positions) => 
     set({ 
       westernNotes: notes, 
       carnaticPositions: positions,
+      conversionReport: [],
+      scoreOrders: null,
+      accompaniment: [],
+      fingeringPins: {},
       currentIndex: 0,
       playbackState: 'idle',
     }),
 
+  loadScore: (notes, writtenNotes, accompaniment = []) => {
+    const scoreOrders = writtenNotes ? { played: notes, written: writtenNotes } : null;
+    set({
+      westernNotes: scoreOrders && !get().followRepeats ? scoreOrders.written : notes,
+      scoreOrders,
+      accompaniment,
+      fingeringPins: {},
+      currentIndex: 0,
+      playbackState: 'idle',
+    });
+    set(reconvert(get()));
+  },
+
+  transposeScore: (transpose) => {
+    const { westernNotes, scoreOrders, accompaniment } = get();
+    // Accompaniment moves with the melody; pinned strings may not reach the transposed notes, so pins are dropped
+    set({
+      westernNotes: transpose(westernNotes),
+      scoreOrders: scoreOrders && { played: transpose(scoreOrders.played), written: transpose(scoreOrders.written) },
+      accompaniment: accompaniment.map(part => ({
+        ...part,
+        notes: transpose(part.notes),
+        writtenNotes: part.writtenNotes && transpose(part.writtenNotes),
+      })),
+      fingeringPins: {},
+      currentIndex: 0,
+      playbackState: 'idle',
+    });
+    set(reconvert(get()));
+  },
+
   setMetadata: (metadata) =>
     set({ scoreMetadata: metadata }),
 
@@ -62,11 +173,112 @@ export const useAppStore = create<AppState>((set, get) => ({
   setLoop: (loop) => 
     set({ loop }),
 
+  setFollowRepeats: (followRepeats) => {
+    const { scoreOrders } = get();
+    set({ followRepeats });
+    if (!scoreOrders) return;
+
+    // Pins and the playhead refer to note indices of the other order
+    set({
+      westernNotes: followRepeats ? scoreOrders.played : scoreOrders.written,
+      fingeringPins: {},
+      currentIndex: 0,
+      playbackState: 'idle',
+    });
+    set(reconvert(get()));
+  },
+
+  setSaMidi: (saMidi) => {
+    set({ saMidi });
+    set(reconvert(get()));
+  },
+
+  setRagaId: (ragaId) => {
+    set({ ragaId, scoreMetadata: { ...get().scoreMetadata, raga: ragaId } });
+    set(reconvert(get()));
+  },
+
+  setIntonation: (intonation) =>
+    set({ intonation }),
+
+  setTalaId: (talaId) =>
+    set({ talaId, scoreMetadata: { ...get().scoreMetadata, tala: talaId } }),
+
+  addCustomTala: (tala) => {
+    const customTalas = [...get().customTalas.filter(t => t.id !== tala.id), tala];
+    set({ customTalas, talaId: tala.id, scoreMetadata: { ...get().scoreMetadata, tala: tala.id } });
+  },
+
+  removeCustomTala: (id) => {
+    const { customTalas, talaId } = get();
+    set({
+      customTalas: customTalas.filter(t => t.id !== id),
+      talaId: talaId === id ? undefined : talaId,
+    });
+  },
+
+  setInstrumentId: (instrumentId) => {
+    // Pins name strings of the previous instrument, so they are dropped
+    set({
+      instrumentId,
+      tuningId: findTuning('', [], instrumentId).id,
+      fingeringPins: {},
+    });
+    set(reconvert(get()));
+  },
+
+  setTuningId: (tuningId) => {
+    set({ tuningId });
+    set(reconvert(get()));
+  },
+
+  addCustomTuning: (tuning) => {
+    set({
+      customTunings: [...get().customTunings.filter(t => t.id !== tuning.id), tuning],
+      tuningId: tuning.id,
+    });
+    set(reconvert(get()));
+  },
+
+  removeCustomTuning: (id) => {
+    const { customTunings, tuningId, instrumentId } = get();
+    set({
+      customTunings: customTunings.filter(t => t.id !== id),
+      tuningId: tuningId === id ? findTuning('', [], instrumentId).id : tuningId,
+    });
+    set(reconvert(get()));
+  },
+
+  setFingeringWeights: (weights) => {
+    set({ fingeringWeights: { ...get().fingeringWeights, ...weights } });
+    set(reconvert(get()));
+  },
+
+  setFingeringPin: (index, pin) => {
+    const fingeringPins = { ...get().fingeringPins };
+    if (pin) {
+      fingeringPins[index] = pin;
+    } else {
+      delete fingeringPins[index];
+    }
+    set({ fingeringPins });
+    set(reconvert(get()));
+  },
+
+  setRangeMode: (rangeMode) => {
+    set({ rangeMode });
+    set(reconvert(get()));
+  },
+
   reset: () => 
     set({ 
       westernNotes: [], 
       carnaticPositions: [],
+      conversionReport: [],
+      scoreOrders: null,
+      accompaniment: [],
       scoreMetadata: {},
+      fingeringPins: {},
       playbackState: 'idle',
       currentIndex: 0,
     }),
@@ -89,3 +301,59 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 }));
+
+/**
+ * Open-string tuning for the selected profile and Sa
+ */
+export const selectTuning = (state: AppState): StringTuning =>
+  resolveTuning(findTuning(state.tuningId, state.customTunings, state.instrumentId), state.saMidi);
+
+/**
+ * Selected instrument profile
+ */
+export const selectInstrument = (state: AppState): InstrumentProfile => findInstrument(state.instrumentId);
+
+/**
+ * Notes of each accompaniment part in the same order as the melody (played or written)
+ */
+export const selectAccompaniment = (state: AppState): WesternNote[][] =>
+  state.accompaniment.map(part =>
+    state.scoreOrders && !state.followRepeats && part.writtenNotes ? part.writtenNotes : part.notes
+  );
+
+/**
+ * Swara name for each semitone above Sa in the selected raga
+ */
+export const selectSwaraNames = (state: AppState): string[] => ragaSwaraNames(state.ragaId);
+
+/**
+ * Active tala, falling back to cycles of the score's time signature
+ */
+export const selectTala = (state: AppState): Tala =>
+  findTala(state.talaId, state.customTalas) ??
+  talaFromTimeSignature(state.scoreMetadata.timeSignature?.beats);
+
+/**
+ * Converter options for the current Sa, tuning, fingering and range settings
+ */
+export const selectConversionOptions = (state: AppState): ConversionOptions => ({
+  saMidi: state.saMidi,
+  instrument: selectInstrument(state),
+  tuning: selectTuning(state),
+  ragaId: state.ragaId,
+  weights: state.fingeringWeights,
+  pins: state.fingeringPins,
+  rangeMode: state.rangeMode,
+});
+
+/**
+ * Re-derive string/finger positions and the conversion report after the score
+ * or any conversion setting changes
+ */
+function reconvert(state: AppState): Pick<AppState, 'carnaticPositions' | 'conversionReport'> {
+  const { positions, issues } = CarnaticConverter.convertScoreWithReport(
+    state.westernNotes,
+    selectConversionOptions(state)
+  );
+  return { carnaticPositions: positions, conversionReport: issues };
+}
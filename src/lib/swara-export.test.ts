@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { SwaraExporter } from './swara-export';
+import { SwaraParser } from './swara-parser';
+import { ParsedScore } from '@/types';
+
+const pitches = (score: ParsedScore) => score.notes.map(n => (n.rest ? 'z' : `${n.pitch}${n.octave}`));
+const durations = (score: ParsedScore) => score.notes.map(n => n.duration);
+
+describe('swara text round trip', () => {
+  it('parses exported text back to the same notes', () => {
+    const score: ParsedScore = {
+      title: 'Sarali Varisai',
+      raga: 'mela-15', // Mayamalavagowla
+      notes: [
+        { pitch: 'D', octave: 3, duration: 1 },
+        { pitch: 'D#', octave: 3, duration: 1 },
+        { pitch: 'F#', octave: 3, duration: 1 },
+        { pitch: 'G', octave: 3, duration: 1 },
+        { pitch: 'A', octave: 3, duration: 2 },
+        { pitch: '', octave: 0, duration: 1, rest: true },
+        { pitch: 'A#', octave: 3, duration: 0.5 },
+        { pitch: 'C#', octave: 4, duration: 0.5 },
+        { pitch: 'D', octave: 4, duration: 4 }, // Fills the last avartanam so no karvai is added
+      ],
+    };
+
+    const text = SwaraExporter.toText(score, []);
+    const parsed = SwaraParser.parse(text);
+
+    expect(parsed.title).toBe('Sarali Varisai');
+    expect(pitches(parsed)).toEqual(pitches(score));
+    expect(durations(parsed)).toEqual(durations(score));
+  });
+
+  it('exports parsed text back to the same swaras', () => {
+    const text = 'S R G M | P D | N Ṡ ||';
+    const first = SwaraParser.parse(text);
+    const second = SwaraParser.parse(SwaraExporter.toText(first, []));
+
+    expect(pitches(second)).toEqual(pitches(first));
+    expect(durations(second)).toEqual(durations(first));
+  });
+
+  it('keeps the Sa the text was written for', () => {
+    const score: ParsedScore = { notes: [{ pitch: 'C', octave: 3, duration: 2 }, { pitch: 'G', octave: 3, duration: 2 }] };
+    const text = SwaraExporter.toText(score, [], { saMidi: 48 });
+
+    expect(pitches(SwaraParser.parse(text))).toEqual(['C3', 'G3']);
+  });
+});
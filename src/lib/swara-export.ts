@@ -0,0 +1,129 @@
+/**
+ * Export a converted score as Carnatic swara notation text
+ * S R G M P D N with octave dots, commas for karvai, - for rests, | after each anga and || after each avartanam
+ */
+
+import { CarnaticPosition, ParsedScore } from '@/types';
+import { CarnaticConverter } from './carnatic-converter-correct';
+import { exportFileName } from './download';
+import { DEFAULT_SA_MIDI, getShrutiOption } from './shruti';
+import { findRaga, formatScale, ragaSwaraNames } from './ragas';
+import { Tala, findTala, formatTala, talaBeats, talaFromTimeSignature } from './talas';
+
+export interface SwaraExportOptions {
+  saMidi?: number; // Sa as a MIDI number (default D3)
+  ragaId?: string; // Overrides the raga stored with the score
+  tala?: Tala; // Overrides the tala stored with the score
+  avartanamsPerLine?: number; // Tala cycles per line (default 1)
+}
+
+// Combining marks: dot above for tara sthayi, dot below for mandra sthayi
+const DOT_ABOVE = ['', '\u0307', '\u0308'];
+const DOT_BELOW = ['', '\u0323', '\u0324'];
+
+// Slots per beat to try, fewest first (a slot holds one swara or karvai comma)
+const SLOTS_PER_BEAT = [1, 2, 3, 4, 6, 8, 12, 16, 24, 48];
+
+export class SwaraExporter {
+  /**
+   * Single-letter swara with octave dots, e.g. MIDI 62 with Sa 50 -> "Ṡ"
+   */
+  static swaraLetter(midi: number, saMidi: number = DEFAULT_SA_MIDI, names?: string[]): string {
+    const offset = midi - saMidi;
+    const degree = ((offset % 12) + 12) % 12;
+    const sthayi = Math.floor(offset / 12);
+    const letter = (names ?? ragaSwaraNames())[degree][0];
+
+    if (sthayi > 0) return letter + DOT_ABOVE[Math.min(sthayi, 2)];
+    if (sthayi < 0) return letter + DOT_BELOW[Math.min(-sthayi, 2)];
+    return letter;
+  }
+
+  /**
+   * Render a score and its positions as notation text with a short header
+   * Notes folded into range are written at the octave they are played in
+   */
+  static toText(
+    score: ParsedScore,
+    positions: (CarnaticPosition | null)[],
+    options: SwaraExportOptions = {}
+  ): string {
+    const saMidi = options.saMidi ?? DEFAULT_SA_MIDI;
+    const ragaId = options.ragaId ?? score.raga;
+    const names = ragaSwaraNames(ragaId);
+    const tala = options.tala ?? findTala(score.tala) ?? talaFromTimeSignature(score.timeSignature?.beats);
+    const avartanamsPerLine = options.avartanamsPerLine ?? 1;
+    const slotsPerBeat = this.slotsPerBeat(score.notes.map(n => n.duration || 1));
+
+    // Each slot is a swara, a rest or a karvai comma
+    const slots: string[] = [];
+    score.notes.forEach((note, index) => {
+      const length = Math.max(1, Math.round((note.duration || 1) * slotsPerBeat));
+      if (note.rest) {
+        slots.push('-', ...Array(length - 1).fill(','));
+        return;
+      }
+      const midi = CarnaticConverter.noteToMidi(note.pitch, note.octave) +
+        (positions[index]?.octaveShift ?? 0) * 12;
+      slots.push(this.swaraLetter(midi, saMidi, names), ...Array(length - 1).fill(','));
+    });
+
+    const slotsPerAvartanam = slotsPerBeat * talaBeats(tala);
+    while (slots.length % slotsPerAvartanam !== 0) slots.push(',');
+
+    // Beats joined by spaces, angas closed by | and the avartanam by ||
+    const avartanams: string[] = [];
+    for (let start = 0; start < slots.length; start += slotsPerAvartanam) {
+      let from = start;
+      const angas = tala.angas.map(anga => {
+        const beats: string[] = [];
+        for (let beat = 0; beat < anga.beats; beat++, from += slotsPerBeat) {
+          beats.push(slots.slice(from, from + slotsPerBeat).join(''));
+        }
+        return beats.join(' ');
+      });
+      avartanams.push(`${angas.join(' | ')} ||`);
+    }
+
+    const lines: string[] = [];
+    for (let i = 0; i < avartanams.length; i += avartanamsPerLine) {
+      lines.push(avartanams.slice(i, i + avartanamsPerLine).join(' '));
+    }
+
+    return [...this.header(score, saMidi, ragaId, tala), '', ...lines, ''].join('\n');
+  }
+
+  /**
+   * Suggested file name for a swara text download
+   */
+  static fileName(score: ParsedScore): string {
+    return exportFileName(score, '-swaras.txt');
+  }
+
+  private static header(score: ParsedScore, saMidi: number, ragaId: string | undefined, tala: Tala): string[] {
+    const lines: string[] = [];
+    if (score.title) lines.push(`Title: ${score.title}`);
+    if (score.composer) lines.push(`Composer: ${score.composer}`);
+
+    const raga = findRaga(ragaId);
+    if (raga) {
+      lines.push(`Raga: ${raga.name}`);
+      lines.push(`Arohana: ${formatScale(raga.arohana)}`);
+      lines.push(`Avarohana: ${formatScale(raga.avarohana)}`);
+    }
+
+    lines.push(`Sa: ${getShrutiOption(saMidi).label}`);
+    lines.push(`Tala: ${tala.name} (${formatTala(tala)})`);
+    if (score.tempo) lines.push(`Tempo: ${score.tempo} BPM`);
+    return lines;
+  }
+
+  /**
+   * Fewest slots per beat that fit every note duration (falls back to the finest)
+   */
+  private static slotsPerBeat(durations: number[]): number {
+    const fits = (slots: number) =>
+      durations.every(d => Math.abs(d * slots - Math.round(d * slots)) < 1e-3);
+    return SLOTS_PER_BEAT.find(fits) ?? SLOTS_PER_BEAT[SLOTS_PER_BEAT.length - 1];
+  }
+}
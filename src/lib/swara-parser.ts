@@ -0,0 +1,172 @@
+/**
+ * Reverse conversion: Carnatic swara notation text to Western notes
+ *
+ * Syntax (the same notation SwaraExporter writes):
+ * - S R G M P D N, optionally with a variant (R1, G3, D2, ...); otherwise the raga decides
+ * - Octave dots: dot above (Ṡ) for tara, dot below (P̣) for mandra, doubled for two octaves;
+ *   ASCII ' after a swara also means tara and . means mandra
+ * - Each space-separated group is one beat, shared equally by the swaras and commas in it
+ * - , extends the previous swara by one slot (karvai), ; by two
+ * - - is a one-slot rest, extended by karvai like a swara
+ * - (1) (2) (3) switch to first, second or third speed: each group then lasts 1, 1/2 or 1/4 beat
+ * - | and || mark anga and avartanam ends and are ignored for timing
+ * - "Key: value" header lines; Title, Composer, Raga, Tala, Tempo and Sa fill in the metadata
+ */
+
+import { ParsedScore, WesternNote } from '@/types';
+import { DEFAULT_SA_MIDI, SHRUTI_OPTIONS, saMidiFromPitchClass } from './shruti';
+import { MELAKARTAS, SWARASTHANA_SEMITONES, Swarasthana, findRaga, findRagaByName, parseSwarasthana } from './ragas';
+import { Tala, findTala, findTalaByName, talaBeats } from './talas';
+import { midiToNoteName, parseNoteString } from './instrument';
+
+export interface SwaraParseOptions {
+  saMidi?: number; // Sa as a MIDI number (default from the header, then D3)
+  ragaId?: string; // Raga deciding R/G/M/D/N variants (default from the header, then Sankarabharanam)
+  talaId?: string; // Tala for the time signature (default from the header)
+  customTalas?: Tala[];
+}
+
+const HEADER_PATTERN = /^([A-Za-z][A-Za-z ]*):\s*(.*)$/;
+const SWARA_PATTERN = /^([SRGMPDN])([1-3])?([\u0307\u0308\u0323\u0324'.]*)/i;
+const OCTAVE_MARKS: Record<string, number> = {
+  '\u0307': 1, '\u0308': 2, "'": 1,
+  '\u0323': -1, '\u0324': -2, '.': -1,
+};
+
+// Variants used when no raga is chosen (Dheerasankarabharanam)
+const DEFAULT_RAGA_ID = 'mela-29';
+
+export class SwaraParser {
+  /**
+   * Parse swara text into a score of Western notes (durations in beats)
+   * Throws on symbols that are not part of the notation
+   */
+  static parse(text: string, options: SwaraParseOptions = {}): ParsedScore {
+    const header: Record<string, string> = {};
+    const body: string[] = [];
+
+    for (const line of text.normalize('NFD').split('\n')) {
+      const match = line.trim().match(HEADER_PATTERN);
+      if (match) {
+        header[match[1].trim().toLowerCase()] = match[2].trim();
+      } else {
+        body.push(line);
+      }
+    }
+
+    const saMidi = options.saMidi ?? this.headerSa(header.sa) ?? DEFAULT_SA_MIDI;
+    const ragaId = options.ragaId ?? (header.raga ? findRagaByName(header.raga)?.id : undefined);
+    const tala = findTala(options.talaId, options.customTalas) ??
+      (header.tala ? findTalaByName(header.tala.replace(/\s*\(.*\)$/, ''), options.customTalas) : undefined);
+
+    const notes: WesternNote[] = [];
+    let speed = 1;
+
+    const groups = body.join(' ')
+      .replace(/\|+/g, ' ')
+      .replace(/\(([1-3])\)/g, ' ($1) ')
+      .split(/\s+/)
+      .filter(Boolean);
+
+    for (const group of groups) {
+      const speedMatch = group.match(/^\(([1-3])\)$/);
+      if (speedMatch) {
+        speed = 2 ** (parseInt(speedMatch[1]) - 1);
+        continue;
+      }
+
+      // Split the beat into slots: swaras, rests, or karvai extending the previous one
+      const slots: Array<{ midi: number } | 'karvai' | 'rest'> = [];
+      let rest = group;
+      while (rest.length > 0) {
+        if (rest[0] === '-') {
+          slots.push('rest');
+          rest = rest.slice(1);
+          continue;
+        }
+        if (rest[0] === ',') {
+          slots.push('karvai');
+          rest = rest.slice(1);
+          continue;
+        }
+        if (rest[0] === ';') {
+          slots.push('karvai', 'karvai');
+          rest = rest.slice(1);
+          continue;
+        }
+
+        const match = rest.match(SWARA_PATTERN);
+        if (!match) {
+          throw new Error(`Unrecognised symbol "${rest[0]}" in "${group.normalize('NFC')}"`);
+        }
+        const [token, letter, variant, marks] = match;
+        const sthayi = Array.from(marks).reduce((sum, mark) => sum + OCTAVE_MARKS[mark], 0);
+        slots.push({ midi: saMidi + this.semitones(letter, variant, ragaId) + sthayi * 12 });
+        rest = rest.slice(token.length);
+      }
+
+      const slotBeats = 1 / speed / slots.length;
+      for (const slot of slots) {
+        if (slot === 'karvai') {
+          // Karvai before any swara has nothing to extend
+          if (notes.length > 0) notes[notes.length - 1].duration += slotBeats;
+        } else if (slot === 'rest') {
+          notes.push({ pitch: '', octave: 0, duration: slotBeats, rest: true });
+        } else {
+          const { pitch, octave } = parseNoteString(midiToNoteName(slot.midi));
+          notes.push({ pitch, octave, duration: slotBeats });
+        }
+      }
+    }
+
+    const tempo = header.tempo ? parseFloat(header.tempo) : NaN;
+    return {
+      title: header.title || undefined,
+      composer: header.composer || undefined,
+      tempo: isNaN(tempo) ? undefined : tempo,
+      timeSignature: tala ? { beats: talaBeats(tala), beatType: 4 } : undefined,
+      raga: ragaId,
+      tala: tala?.id,
+      notes: notes.map(n => ({ ...n, duration: Math.round(n.duration * 1e6) / 1e6 })),
+    };
+  }
+
+  /**
+   * Simple "C4:1 D4:0.5 z:0.5" note string for the scrolling player (z is a rest)
+   */
+  static toNoteString(notes: WesternNote[]): string {
+    return notes
+      .map(n => `${n.rest ? 'z' : n.pitch + n.octave}${n.duration !== 1 ? ':' + n.duration : ''}`)
+      .join(' ');
+  }
+
+  /**
+   * Semitones above Sa for a swara letter, from an explicit variant, the raga,
+   * or (for anya swaras) the raga's parent melakarta
+   */
+  private static semitones(letter: string, variant: string | undefined, ragaId?: string): number {
+    const upper = letter.toUpperCase();
+    if (upper === 'S') return 0;
+    if (upper === 'P') return 7;
+
+    if (variant) {
+      const swara = parseSwarasthana(upper + variant);
+      if (!swara) throw new Error(`Unknown swara variant: ${upper}${variant}`);
+      return SWARASTHANA_SEMITONES[swara];
+    }
+
+    const raga = findRaga(ragaId) ?? findRaga(DEFAULT_RAGA_ID)!;
+    const matches = (swara: Swarasthana) => swara[0] === upper;
+    const swara = raga.swaras.find(matches) ?? MELAKARTAS[raga.melakarta - 1].swaras.find(matches)!;
+    return SWARASTHANA_SEMITONES[swara];
+  }
+
+  /**
+   * Sa from a header such as "D · 2 Kattai (White 2)" or "C#"
+   */
+  private static headerSa(value?: string): number | undefined {
+    const western = value?.match(/^([A-G]#?)/)?.[1];
+    const option = SHRUTI_OPTIONS.find(o => o.western === western);
+    return option ? saMidiFromPitchClass(option.pitchClass) : undefined;
+  }
+}
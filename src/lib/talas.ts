@@ -0,0 +1,177 @@
+/**
+ * Tala definitions (Adi, Rupaka, Chapu, the 35 suladi talas and custom talas)
+ * and placement of notes into avartanams (tala cycles) and angas (sections)
+ */
+
+export type AngaType = 'laghu' | 'drutam' | 'anudrutam' | 'chapu';
+
+export interface Anga {
+  type: AngaType;
+  beats: number; // Aksharas (beats) in this anga
+}
+
+export interface Tala {
+  id: string;
+  name: string;
+  angas: Anga[];
+  custom?: boolean;
+}
+
+export interface TalaPlacement {
+  avartanam: number; // 0-based tala cycle
+  anga: number; // Anga index within the cycle
+  beat: number; // Beat within the cycle where the note starts
+  startsAvartanam: boolean; // First note of a new cycle
+  startsAnga: boolean; // First note of a new anga
+}
+
+const laghu = (beats: number): Anga => ({ type: 'laghu', beats });
+const DRUTAM: Anga = { type: 'drutam', beats: 2 };
+const ANUDRUTAM: Anga = { type: 'anudrutam', beats: 1 };
+const chapu = (beats: number): Anga => ({ type: 'chapu', beats });
+
+// Jati sets the laghu length in each suladi tala
+const JATIS: Array<{ name: string; beats: number }> = [
+  { name: 'Tisra', beats: 3 },
+  { name: 'Chatusra', beats: 4 },
+  { name: 'Khanda', beats: 5 },
+  { name: 'Misra', beats: 7 },
+  { name: 'Sankeerna', beats: 9 },
+];
+
+// Anga pattern of the seven suladi talas (L = laghu, D = drutam, A = anudrutam)
+const SULADI_PATTERNS: Array<{ name: string; pattern: string }> = [
+  { name: 'Dhruva', pattern: 'L D L L' },
+  { name: 'Matya', pattern: 'L D L' },
+  { name: 'Rupaka', pattern: 'D L' },
+  { name: 'Jhampa', pattern: 'L A D' },
+  { name: 'Triputa', pattern: 'L D D' },
+  { name: 'Ata', pattern: 'L L D D' },
+  { name: 'Eka', pattern: 'L' },
+];
+
+function suladi(tala: string, pattern: string, jati: { name: string; beats: number }): Tala {
+  return {
+    id: `${jati.name}-${tala}`.toLowerCase(),
+    name: `${jati.name} Jati ${tala}`,
+    angas: pattern.split(' ').map(a => (a === 'L' ? laghu(jati.beats) : a === 'D' ? DRUTAM : ANUDRUTAM)),
+  };
+}
+
+export const SULADI_TALAS: Tala[] = SULADI_PATTERNS.flatMap(({ name, pattern }) =>
+  JATIS.map(jati => suladi(name, pattern, jati))
+);
+
+export const COMMON_TALAS: Tala[] = [
+  { id: 'adi', name: 'Adi', angas: [laghu(4), DRUTAM, DRUTAM] },
+  { id: 'rupaka', name: 'Rupaka', angas: [DRUTAM, laghu(4)] },
+  { id: 'misra-chapu', name: 'Misra Chapu', angas: [chapu(3), chapu(2), chapu(2)] },
+  { id: 'khanda-chapu', name: 'Khanda Chapu', angas: [chapu(2), chapu(3)] },
+];
+
+/**
+ * Total beats in one avartanam
+ */
+export function talaBeats(tala: Tala): number {
+  return tala.angas.reduce((sum, anga) => sum + anga.beats, 0);
+}
+
+/**
+ * Look up a tala by id among built-in and custom talas
+ */
+export function findTala(id: string | undefined, customs: Tala[] = []): Tala | undefined {
+  if (!id) return undefined;
+  return [...COMMON_TALAS, ...SULADI_TALAS, ...customs].find(t => t.id === id);
+}
+
+/**
+ * Look up a tala by name, ignoring case (e.g. "misra chapu")
+ */
+export function findTalaByName(name: string, customs: Tala[] = []): Tala | undefined {
+  const key = name.trim().toLowerCase();
+  return [...COMMON_TALAS, ...SULADI_TALAS, ...customs].find(t => t.name.toLowerCase() === key);
+}
+
+const timeSignatureTalas = new Map<number, Tala>();
+
+/**
+ * Plain cycle of a Western time signature's beats, used when no tala is chosen
+ */
+export function talaFromTimeSignature(beats: number = 4): Tala {
+  let tala = timeSignatureTalas.get(beats);
+  if (!tala) {
+    tala = { id: 'time-signature', name: `${beats} beats`, angas: [laghu(beats)] };
+    timeSignatureTalas.set(beats, tala);
+  }
+  return tala;
+}
+
+/**
+ * Anga notation, e.g. Adi -> "I4 O O" (I = laghu, O = drutam, U = anudrutam, C = chapu)
+ */
+export function formatTala(tala: Tala): string {
+  return tala.angas
+    .map(a => (a.type === 'laghu' ? `I${a.beats}` : a.type === 'drutam' ? 'O' : a.type === 'anudrutam' ? 'U' : `C${a.beats}`))
+    .join(' ');
+}
+
+/**
+ * Parse anga notation such as "I4 O O" or "C3 C2 C2" into angas
+ * Throws if a token is not recognised
+ */
+export function parseTalaAngas(text: string): Anga[] {
+  const tokens = text.trim().toUpperCase().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) throw new Error('Empty tala');
+
+  return tokens.map(token => {
+    if (token === 'O') return DRUTAM;
+    if (token === 'U') return ANUDRUTAM;
+    const match = token.match(/^([IL]|C)(\d+)$/);
+    if (!match || parseInt(match[2]) < 1) throw new Error(`Unknown anga: ${token}`);
+    return match[1] === 'C' ? chapu(parseInt(match[2])) : laghu(parseInt(match[2]));
+  });
+}
+
+/**
+ * Beat offsets within a cycle where each anga starts, e.g. Adi -> [0, 4, 6]
+ */
+export function angaStarts(tala: Tala): number[] {
+  const starts: number[] = [];
+  let offset = 0;
+  for (const anga of tala.angas) {
+    starts.push(offset);
+    offset += anga.beats;
+  }
+  return starts;
+}
+
+/**
+ * Place each note (by its duration in beats) into an avartanam and anga
+ */
+export function placeInTala(durations: number[], tala: Tala): TalaPlacement[] {
+  const cycle = talaBeats(tala);
+  const starts = angaStarts(tala);
+
+  let time = 0;
+  let previous: { avartanam: number; anga: number } | null = null;
+
+  return durations.map(duration => {
+    // Small epsilon so floating point sums land on the beat they represent
+    const avartanam = Math.floor((time + 1e-6) / cycle);
+    const beat = time - avartanam * cycle;
+    let anga = starts.length - 1;
+    while (anga > 0 && starts[anga] > beat + 1e-6) anga--;
+
+    const placement: TalaPlacement = {
+      avartanam,
+      anga,
+      beat,
+      startsAvartanam: !previous || previous.avartanam !== avartanam,
+      startsAnga: !previous || previous.avartanam !== avartanam || previous.anga !== anga,
+    };
+
+    previous = { avartanam, anga };
+    time += duration || 1;
+    return placement;
+  });
+}
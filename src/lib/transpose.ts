@@ -0,0 +1,115 @@
+/**
+ * Transposition of a score by semitones, by a spelled interval, or to another key
+ * Interval and key transposition move the letter names too, so spelling stays correct
+ * (D major up a major third gives F# major with A#, not Bb); rests pass through unchanged
+ */
+
+import { ParsedScore, WesternNote } from '@/types';
+import { PITCH_CLASSES, accidentalAlter, midiToNoteName, noteToMidi, parseNoteString } from './instrument';
+
+export interface Interval {
+  name: string;
+  short: string;
+  steps: number; // Letter names moved, e.g. 2 for a third
+  semitones: number;
+}
+
+export const INTERVALS: Interval[] = [
+  { name: 'Unison', short: 'P1', steps: 0, semitones: 0 },
+  { name: 'Minor second', short: 'm2', steps: 1, semitones: 1 },
+  { name: 'Major second', short: 'M2', steps: 1, semitones: 2 },
+  { name: 'Minor third', short: 'm3', steps: 2, semitones: 3 },
+  { name: 'Major third', short: 'M3', steps: 2, semitones: 4 },
+  { name: 'Perfect fourth', short: 'P4', steps: 3, semitones: 5 },
+  { name: 'Augmented fourth', short: 'A4', steps: 3, semitones: 6 },
+  { name: 'Diminished fifth', short: 'd5', steps: 4, semitones: 6 },
+  { name: 'Perfect fifth', short: 'P5', steps: 4, semitones: 7 },
+  { name: 'Minor sixth', short: 'm6', steps: 5, semitones: 8 },
+  { name: 'Major sixth', short: 'M6', steps: 5, semitones: 9 },
+  { name: 'Minor seventh', short: 'm7', steps: 6, semitones: 10 },
+  { name: 'Major seventh', short: 'M7', steps: 6, semitones: 11 },
+  { name: 'Octave', short: 'P8', steps: 7, semitones: 12 },
+];
+
+// Tonics of the fifteen major key signatures, flats to sharps
+export const KEYS = ['Cb', 'Gb', 'Db', 'Ab', 'Eb', 'Bb', 'F', 'C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#'];
+
+const LETTERS = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+const ACCIDENTALS: Record<number, string> = { [-2]: 'bb', [-1]: 'b', 0: '', 1: '#', 2: '##' };
+const FLAT_NAMES = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'Gb', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+export class Transposer {
+  /**
+   * Move every note by a number of semitones; notes written with flats keep flat spellings
+   */
+  static bySemitones(score: ParsedScore, semitones: number): ParsedScore {
+    return {
+      ...score,
+      notes: score.notes.map(note => {
+        if (note.rest) return note;
+        const midi = noteToMidi(note.pitch, note.octave) + semitones;
+        return { ...note, ...this.spellMidi(midi, note.pitch.includes('b')) };
+      }),
+    };
+  }
+
+  /**
+   * Move every note by a spelled interval, up (direction 1) or down (-1)
+   */
+  static byInterval(score: ParsedScore, interval: Interval, direction: 1 | -1 = 1): ParsedScore {
+    return {
+      ...score,
+      notes: score.notes.map(note =>
+        note.rest ? note : this.transposeNote(note, interval.steps * direction, interval.semitones * direction)
+      ),
+    };
+  }
+
+  /**
+   * Move a score from one key to another by the nearest interval between the tonics
+   * (up to a tritone up, otherwise down)
+   */
+  static toKey(score: ParsedScore, fromKey: string, toKey: string): ParsedScore {
+    const { steps, semitones } = this.keyInterval(fromKey, toKey);
+    return {
+      ...score,
+      notes: score.notes.map(note => note.rest ? note : this.transposeNote(note, steps, semitones)),
+    };
+  }
+
+  /**
+   * Letter steps and semitones from one tonic to the nearest instance of another
+   */
+  static keyInterval(fromKey: string, toKey: string): { steps: number; semitones: number } {
+    const steps = (LETTERS.indexOf(toKey[0]) - LETTERS.indexOf(fromKey[0]) + 7) % 7;
+    let semitones = (PITCH_CLASSES[toKey] - PITCH_CLASSES[fromKey] + 12) % 12;
+    // Keep the semitones in the octave the letter steps imply (C to Cb is down, Gb to F# is up an octave)
+    semitones += 12 * Math.round((steps * 12 / 7 - semitones) / 12);
+    return semitones > 6 ? { steps: steps - 7, semitones: semitones - 12 } : { steps, semitones };
+  }
+
+  /**
+   * Move one note by letter steps and semitones, spelling the result from the moved letter
+   */
+  static transposeNote(note: WesternNote, steps: number, semitones: number): WesternNote {
+    const midi = noteToMidi(note.pitch, note.octave) + semitones;
+    const degree = note.octave * 7 + LETTERS.indexOf(note.pitch[0]) + steps;
+    const octave = Math.floor(degree / 7);
+    const letter = LETTERS[degree - octave * 7];
+    const alter = midi - noteToMidi(letter, octave);
+
+    // Beyond double sharps and flats there is no sensible spelling; use the plain one
+    if (!(alter in ACCIDENTALS)) {
+      return { ...note, ...this.spellMidi(midi, accidentalAlter(note.pitch) < 0) };
+    }
+    return { ...note, pitch: letter + ACCIDENTALS[alter], octave };
+  }
+
+  /**
+   * Plain spelling of a MIDI number with sharps or flats
+   */
+  static spellMidi(midi: number, flats: boolean): { pitch: string; octave: number } {
+    const { pitch, octave } = parseNoteString(midiToNoteName(midi));
+    return { pitch: flats ? FLAT_NAMES[PITCH_CLASSES[pitch]] : pitch, octave };
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Minimal ZIP reading for compressed score containers (.mxl, .mscz)
+ * Entries are found through the central directory and inflated with the
+ * browser's DecompressionStream; stored and deflated entries are supported, ZIP64 is not
+ */
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+
+export class ZipReader {
+  /**
+   * Every file in the archive by path, uncompressed
+   */
+  static async entries(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+    const view = new DataView(buffer);
+    const end = this.findEndOfDirectory(view);
+    const count = view.getUint16(end + 10, true);
+    let offset = view.getUint32(end + 16, true);
+    const files = new Map<string, Uint8Array>();
+    const decoder = new TextDecoder();
+
+    for (let i = 0; i < count; i++) {
+      if (view.getUint32(offset, true) !== DIRECTORY_ENTRY) throw new Error('Corrupt ZIP directory');
+      const method = view.getUint16(offset + 10, true);
+      const compressedSize = view.getUint32(offset + 20, true);
+      const nameLength = view.getUint16(offset + 28, true);
+      const extraLength = view.getUint16(offset + 30, true);
+      const commentLength = view.getUint16(offset + 32, true);
+      const localOffset = view.getUint32(offset + 42, true);
+      const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith('/')) continue;
+      if (view.getUint32(localOffset, true) !== LOCAL_HEADER) throw new Error(`Corrupt ZIP entry ${name}`);
+      // Sizes come from the directory, since local headers may defer them to a data descriptor
+      const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+
+      if (method === 0) files.set(name, data);
+      else if (method === 8) files.set(name, await this.inflate(data));
+      else throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    }
+
+    return files;
+  }
+
+  /**
+   * One file of the archive as UTF-8 text
+   */
+  static text(data: Uint8Array): string {
+    return new TextDecoder().decode(data);
+  }
+
+  /**
+   * Offset of the end-of-central-directory record, searched back past any archive comment
+   */
+  private static findEndOfDirectory(view: DataView): number {
+    const earliest = Math.max(0, view.byteLength - 22 - 0xffff);
+    for (let offset = view.byteLength - 22; offset >= earliest; offset--) {
+      if (view.getUint32(offset, true) === END_OF_DIRECTORY) return offset;
+    }
+    throw new Error('Not a ZIP archive');
+  }
+
+  private static async inflate(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  }
+}
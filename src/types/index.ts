@@ -1,14 +1,23 @@
+import type { StringName } from '@/lib/instrument';
+
 export interface CarnaticPosition {
-  string: 'G' | 'D' | 'A' | 'E';
-  position: string;
-  fingerPosition: number;
-  octaveMarker?: '.' | '..';
+  string: StringName;
+  position: string; // Swara relative to Sa, e.g. "Low Ma1", "Ri1", "High Pa."
+  fingerPosition: number; // 0 = open, 1-4 = fingers
+  handPosition: number; // 1-7, 0 = open string
+  variant?: 'low' | 'high'; // For fingers with low/high placements
+  shift?: { from: number; to: number }; // Hand position change before this note
+  octaveShift?: number; // Octaves moved to fit the instrument's range
 }
 
+// The parts of a position written into exported files (MIDI text, MusicXML technical marks)
+export type ExportPosition = Pick<CarnaticPosition, 'string' | 'fingerPosition' | 'handPosition' | 'octaveShift'>;
+
 export interface WesternNote {
   pitch: string;
   duration: number;
   octave: number;
+  rest?: boolean; // Timed silence; pitch and octave are ignored
 }
 
 export interface ParsedScore {
@@ -16,7 +25,17 @@ export interface ParsedScore {
   composer?: string;
   tempo?: number;
   timeSignature?: { beats: number; beatType: number };
-  notes: WesternNote[];
+  raga?: string; // Raga id used for swara naming
+  tala?: string; // Tala id used for avartanam grouping
+  notes: WesternNote[]; // In playback order, with repeats and jumps unrolled
+  writtenNotes?: WesternNote[]; // In written order, when repeats make it differ from `notes`
+  accompaniment?: AccompanimentPart[]; // Other parts kept for playback alongside the melody
+}
+
+export interface AccompanimentPart {
+  name: string;
+  notes: WesternNote[]; // Same order as the melody's `notes`
+  writtenNotes?: WesternNote[]; // Same order as the melody's `writtenNotes`
 }
 
 export interface NotationMapping {